@@ -4,7 +4,7 @@
  * Handle touch, swipe, pinch, and drag gestures with spring physics
  */
 
-import { createSpring } from '../../utils/spring';
+import { createDecay, createSpring, DecayOptions } from '../../utils/spring';
 import { Accessor, createSignal, createEffect, onCleanup, createMemo } from 'solid-js';
 
 export interface GestureConfig {
@@ -30,6 +30,18 @@ export interface GestureConfig {
       bottom?: number;
     };
     snapPoints?: Array<{ x: number; y: number }>;
+    /**
+     * Keep gliding after release with the pointer's velocity, slowing down
+     * exponentially. The element springs back at the bounds and comes to rest
+     * at the snap point nearest where the glide would end.
+     */
+    momentum?: boolean | Pick<DecayOptions, 'power' | 'timeConstant' | 'bounceStiffness' | 'bounceDamping' | 'restDelta'>;
+    onDragStart?: () => void;
+    /**
+     * Called on every move with the drag offset, after axis and bounds
+     */
+    onDrag?: (offset: { x: number; y: number }) => void;
+    onDragEnd?: (offset: { x: number; y: number }) => void;
   };
 
   /**
@@ -68,6 +80,10 @@ interface TouchState {
   startTime: number;
   currentX: number;
   currentY: number;
+  lastTime: number;
+  // Where the element was picked up; deltaX and deltaY are the drag's movement from there
+  originX: number;
+  originY: number;
   deltaX: number;
   deltaY: number;
   velocity: { x: number; y: number };
@@ -102,6 +118,30 @@ export function useGestures(
     springConfig
   );
 
+  // Glide after release, per axis
+  const momentum = config.drag?.momentum;
+  const decayOptions = typeof momentum === 'object' ? momentum : {};
+  let momentumSnap: { x: number; y: number } | null = null;
+  const syncGlide = () => {
+    setPosition({ x: glide.x.value(), y: glide.y.value() }, { hard: true });
+  };
+  const glide = {
+    x: createDecay(0, {
+      ...decayOptions,
+      min: config.drag?.bounds?.left,
+      max: config.drag?.bounds?.right,
+      modifyTarget: (target) => momentumSnap?.x ?? target,
+      onUpdate: syncGlide,
+    }),
+    y: createDecay(0, {
+      ...decayOptions,
+      min: config.drag?.bounds?.top,
+      max: config.drag?.bounds?.bottom,
+      modifyTarget: (target) => momentumSnap?.y ?? target,
+      onUpdate: syncGlide,
+    }),
+  };
+
   // Spring for scale
   const [scale, setScale] = createSpring(1, springConfig);
 
@@ -162,6 +202,104 @@ export function useGestures(
     return nearestPoint;
   };
 
+  /**
+   * Start a drag at a pointer position. With momentum the element is picked
+   * up where its glide stopped.
+   */
+  const beginDrag = (clientX: number, clientY: number) => {
+    let origin = { x: 0, y: 0 };
+    if (momentum) {
+      glide.x.stop();
+      glide.y.stop();
+      origin = position() as { x: number; y: number };
+    }
+
+    setTouchState({
+      startX: clientX,
+      startY: clientY,
+      startTime: Date.now(),
+      currentX: clientX,
+      currentY: clientY,
+      lastTime: Date.now(),
+      originX: origin.x,
+      originY: origin.y,
+      deltaX: 0,
+      deltaY: 0,
+      velocity: { x: 0, y: 0 },
+    });
+    setIsDragging(true);
+    config.drag?.onDragStart?.();
+  };
+
+  /**
+   * Move the drag to a pointer position
+   */
+  const moveDrag = (state: TouchState, clientX: number, clientY: number) => {
+    const deltaX = clientX - state.startX;
+    const deltaY = clientY - state.startY;
+
+    // Apply axis constraint
+    const axis = config.drag?.axis ?? 'both';
+    const constrainedDelta = {
+      x: axis === 'y' ? 0 : deltaX,
+      y: axis === 'x' ? 0 : deltaY,
+    };
+
+    // Apply bounds to where the element ends up, then report the movement within them
+    const bounded = applyBounds(
+      state.originX + constrainedDelta.x,
+      state.originY + constrainedDelta.y
+    );
+    const delta = { x: bounded.x - state.originX, y: bounded.y - state.originY };
+
+    setPosition(bounded);
+    config.drag?.onDrag?.(delta);
+
+    // Velocity of the last move, in px/ms
+    const now = Date.now();
+    const elapsed = Math.max(now - state.lastTime, 1);
+    setTouchState({
+      ...state,
+      currentX: clientX,
+      currentY: clientY,
+      lastTime: now,
+      deltaX: delta.x,
+      deltaY: delta.y,
+      velocity: {
+        x: (clientX - state.currentX) / elapsed,
+        y: (clientY - state.currentY) / elapsed,
+      },
+    });
+  };
+
+  /**
+   * Release the drag: glide with momentum, or snap to the nearest point
+   */
+  const endDrag = (state: TouchState) => {
+    if (momentum) {
+      const axis = config.drag?.axis ?? 'both';
+      // A pointer held still before release has no velocity left
+      const idle = Date.now() - state.lastTime > 100;
+      const velocity = {
+        x: idle || axis === 'y' ? 0 : state.velocity.x * 1000,
+        y: idle || axis === 'x' ? 0 : state.velocity.y * 1000,
+      };
+      const from = position() as { x: number; y: number };
+      const power = decayOptions.power ?? 0.8;
+
+      momentumSnap = findSnapPoint(from.x + velocity.x * power, from.y + velocity.y * power);
+      glide.x.start(velocity.x, from.x);
+      glide.y.start(velocity.y, from.y);
+    } else {
+      // Snap to point if configured
+      const snapPoint = findSnapPoint(state.originX + state.deltaX, state.originY + state.deltaY);
+      if (snapPoint) {
+        setPosition(snapPoint);
+      }
+    }
+    config.drag?.onDragEnd?.({ x: state.deltaX, y: state.deltaY });
+  };
+
   createEffect(() => {
     const el = element();
     if (!el) return;
@@ -174,17 +312,7 @@ export function useGestures(
       if (touchList.length === 1 && config.gestures?.drag !== false) {
         // Single touch - drag
         const touch = touchList[0];
-        setTouchState({
-          startX: touch.clientX,
-          startY: touch.clientY,
-          startTime: Date.now(),
-          currentX: touch.clientX,
-          currentY: touch.clientY,
-          deltaX: 0,
-          deltaY: 0,
-          velocity: { x: 0, y: 0 },
-        });
-        setIsDragging(true);
+        beginDrag(touch.clientX, touch.clientY);
       } else if (touchList.length === 2 && config.gestures?.pinch !== false) {
         // Two touches - pinch
         const distance = getTouchDistance(touchList[0], touchList[1]);
@@ -208,37 +336,7 @@ export function useGestures(
         const state = touchState();
         if (!state) return;
 
-        const deltaX = touch.clientX - state.startX;
-        const deltaY = touch.clientY - state.startY;
-
-        // Apply axis constraint
-        const axis = config.drag?.axis ?? 'both';
-        const constrainedDelta = {
-          x: axis === 'y' ? 0 : deltaX,
-          y: axis === 'x' ? 0 : deltaY,
-        };
-
-        // Apply bounds
-        const pos = position() as { x: number; y: number };
-        const bounded = applyBounds(
-          constrainedDelta.x,
-          constrainedDelta.y
-        );
-
-        setPosition(bounded);
-
-        // Update touch state
-        setTouchState({
-          ...state,
-          currentX: touch.clientX,
-          currentY: touch.clientY,
-          deltaX: bounded.x,
-          deltaY: bounded.y,
-          velocity: {
-            x: (touch.clientX - state.currentX) / (Date.now() - state.startTime),
-            y: (touch.clientY - state.currentY) / (Date.now() - state.startTime),
-          },
-        });
+        moveDrag(state, touch.clientX, touch.clientY);
       } else if (isPinching() && touchList.length === 2) {
         e.preventDefault();
         const state = pinchState();
@@ -295,11 +393,7 @@ export function useGestures(
             }
           }
 
-          // Snap to point if configured
-          const snapPoint = findSnapPoint(state.deltaX, state.deltaY);
-          if (snapPoint) {
-            setPosition(snapPoint);
-          }
+          endDrag(state);
         }
 
         setIsDragging(false);
@@ -313,18 +407,8 @@ export function useGestures(
     // Mouse events for desktop
     const handleMouseDown = (e: MouseEvent) => {
       if (config.gestures?.drag === false) return;
-      
-      setTouchState({
-        startX: e.clientX,
-        startY: e.clientY,
-        startTime: Date.now(),
-        currentX: e.clientX,
-        currentY: e.clientY,
-        deltaX: 0,
-        deltaY: 0,
-        velocity: { x: 0, y: 0 },
-      });
-      setIsDragging(true);
+
+      beginDrag(e.clientX, e.clientY);
     };
 
     const handleMouseMove = (e: MouseEvent) => {
@@ -333,35 +417,7 @@ export function useGestures(
       const state = touchState();
       if (!state) return;
 
-      const deltaX = e.clientX - state.startX;
-      const deltaY = e.clientY - state.startY;
-
-      // Apply axis constraint
-      const axis = config.drag?.axis ?? 'both';
-      const constrainedDelta = {
-        x: axis === 'y' ? 0 : deltaX,
-        y: axis === 'x' ? 0 : deltaY,
-      };
-
-      // Apply bounds
-      const bounded = applyBounds(
-        constrainedDelta.x,
-        constrainedDelta.y
-      );
-
-      setPosition(bounded);
-
-      setTouchState({
-        ...state,
-        currentX: e.clientX,
-        currentY: e.clientY,
-        deltaX: bounded.x,
-        deltaY: bounded.y,
-        velocity: {
-          x: (e.clientX - state.currentX) / (Date.now() - state.startTime),
-          y: (e.clientY - state.currentY) / (Date.now() - state.startTime),
-        },
-      });
+      moveDrag(state, e.clientX, e.clientY);
     };
 
     const handleMouseUp = () => {
@@ -369,11 +425,7 @@ export function useGestures(
 
       const state = touchState();
       if (state) {
-        // Snap to point if configured
-        const snapPoint = findSnapPoint(state.deltaX, state.deltaY);
-        if (snapPoint) {
-          setPosition(snapPoint);
-        }
+        endDrag(state);
       }
 
       setIsDragging(false);
@@ -42,4 +42,4 @@ export {
 } from './gesture-support';
 
 // Re-export spring utilities for convenience
-export { createSpring } from '../../utils/spring'; 
\ No newline at end of file
+export { createSpring, createDecay, type DecayOptions } from '../../utils/spring'; 
\ No newline at end of file
@@ -14,11 +14,13 @@ import {
   createComponent,
   createEffect,
   createMemo,
+  createRoot,
   createSignal,
   mergeProps,
   onCleanup,
   onMount,
   splitProps,
+  untrack,
 } from "solid-js";
 import { AnimationConfig, useAnimation } from "./hooks/useAnimation";
 import {
@@ -31,6 +33,8 @@ import {
   springPresets,
 } from "./spring-bridge";
 import { AnimationTrigger, InViewOptions, useTrigger } from "./hooks/useTriggers";
+import { registerExitAnimation } from "./presence";
+import { LayoutAnimationEngine } from "./layout-engine";
 import { Color, ColorFormat, Gradient, GradientStop } from "../utils/spring";
 
 import { Dynamic } from "solid-js/web";
@@ -235,6 +239,25 @@ export interface AnimatedProps<P = {}> {
    */
   initial?: Partial<SpringTarget>;
 
+  /**
+   * Framer Motion style exit animation, run when a surrounding `<Presence>`
+   * removes the element. A function receives the `custom` data of the Presence,
+   * or of this component when the Presence has none.
+   */
+  exit?: Partial<SpringTarget> | ((custom: any) => Partial<SpringTarget>);
+
+  /**
+   * Data for a function `exit`
+   */
+  custom?: unknown;
+
+  /**
+   * Shared layout id: when an element with this id unmounts and another mounts,
+   * the new one animates from the old one's position, size and border radius.
+   * Uses the `transition` spring.
+   */
+  layoutId?: string;
+
   /**
    * Apply CSS transition instead of spring animation for reduced motion
    */
@@ -1725,7 +1748,7 @@ const updateDOMStyle = (element: HTMLElement, key: string, value: any) => {
     // Non-color, non-transform property
     // Add units for numeric properties that need them
     if (typeof value === "number" && CSS_NUMERIC_PROPERTIES.has(key)) {
-      const unit = CSS_NUMERIC_PROPERTIES.get(key) || "px";
+      const unit = CSS_NUMERIC_PROPERTIES.get(key) ?? "px";
       element.style[key as any] = unit ? `${value}${unit}` : `${value}`;
       return;
     }
@@ -1737,6 +1760,64 @@ const updateDOMStyle = (element: HTMLElement, key: string, value: any) => {
   }
 };
 
+// =============================================================================
+// Exit Animations
+// =============================================================================
+
+// Transforms that do not start from 0 when an element has none applied
+const TRANSFORM_IDENTITY: Record<string, number> = { scale: 1, scaleX: 1, scaleY: 1, scaleZ: 1 };
+
+/**
+ * Animate an element from its current values to its exit target. The animation
+ * runs in its own root, since the component that rendered the element has
+ * already been disposed when Presence asks it to exit.
+ */
+const runExitAnimation = (
+  element: HTMLElement,
+  current: Record<string, any>,
+  target: Record<string, any>,
+  transition: AnimatedProps["transition"] = {}
+): Promise<void> => {
+  const computed = typeof getComputedStyle === "function" ? getComputedStyle(element) : null;
+  const from: Record<string, any> = {};
+
+  Object.entries(target).forEach(([key, value]) => {
+    if (key in current) {
+      from[key] = current[key];
+    } else if (isTransformProperty(key)) {
+      from[key] = TRANSFORM_IDENTITY[key] ?? 0;
+    } else {
+      const computedValue = computed?.getPropertyValue(key.replace(/[A-Z]/g, (c) => `-${c.toLowerCase()}`)) || "";
+      const numeric = parseFloat(computedValue);
+      if (typeof value !== "number") from[key] = computedValue || value;
+      else if (Number.isFinite(numeric)) from[key] = numeric;
+      else from[key] = key === "opacity" ? 1 : 0;
+    }
+  });
+
+  return new Promise((resolve) => {
+    createRoot((dispose) => {
+      const finish = () => {
+        dispose();
+        resolve();
+      };
+
+      const exit = createAnimation(from, target, { ...transition, onComplete: finish, onError: finish });
+
+      createEffect(() => {
+        const transformStore = new Map<string, string>();
+        const style = generateAnimatedStyle(exit.value(), {}, transformStore);
+        Object.entries(style).forEach(([key, value]) => updateDOMStyle(element, key, value));
+
+        const transform = composeTransforms(transformStore);
+        if (transform) element.style.transform = transform;
+      });
+
+      exit.controls.start();
+    });
+  });
+};
+
 // =============================================================================
 // Prop Transformation
 // =============================================================================
@@ -1941,6 +2022,9 @@ export function animated<T extends keyof JSX.IntrinsicElements | Component<any>>
       "whileTap",
       "whileInView",
       "initial",
+      "exit",
+      "custom",
+      "layoutId",
       "transition",
       "reducedMotionTransition",
       "hardware",
@@ -2473,6 +2557,40 @@ export function animated<T extends keyof JSX.IntrinsicElements | Component<any>>
       });
     });
 
+    // Animate from the previous element with the same layout id
+    createEffect(() => {
+      const element = elementRef();
+      const layoutId = animationProps.layoutId;
+      if (!element || !layoutId) return;
+
+      // The engine's springs must not become dependencies of this effect
+      const engine = untrack(() => new LayoutAnimationEngine(element, { ...animationProps.transition, layoutId }));
+      onCleanup(() => engine.destroy());
+    });
+
+    // Let a surrounding Presence run the exit animation before removing the element.
+    // The registration outlives the component, which is disposed before it exits.
+    createEffect(() => {
+      const element = elementRef();
+      if (!element) return;
+
+      if (!animationProps.exit) {
+        registerExitAnimation(element, null);
+        return;
+      }
+
+      registerExitAnimation(element, (custom) => {
+        const exit = animationProps.exit;
+        const target = typeof exit === "function" ? exit(custom !== undefined ? custom : animationProps.custom) : exit;
+        const current = Object.assign(
+          {},
+          ...animationResults.map((result) => result.value()).filter((value) => value && typeof value === "object")
+        );
+
+        return runExitAnimation(element, current, (target ?? {}) as Record<string, any>, animationProps.transition);
+      });
+    });
+
     // Handle ref
     const handleRef = (el: HTMLElement) => {
       if (!el) return; // Guard against null refs
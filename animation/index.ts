@@ -32,6 +32,7 @@ export * from './advanced';
 // Export layout animation features
 export {
   LayoutAnimationEngine,
+  LAYOUT_CHILD_ATTRIBUTE,
   createLayoutAnimation,
   useLayoutAnimation,
   type LayoutTransitionConfig
@@ -41,5 +42,21 @@ export {
   LayoutAnimated,
   LayoutTransitionProvider,
   layoutAnimation,
+  layoutChild,
   type LayoutAnimatedProps
 } from './layout-components';
+
+export {
+  Presence,
+  registerExitAnimation,
+  type PresenceProps,
+  type PresenceMode,
+  type ExitAnimation
+} from './presence';
+
+export {
+  Reorder,
+  type ReorderAxis,
+  type ReorderGroupProps,
+  type ReorderItemProps
+} from './reorder';
@@ -4,9 +4,22 @@
  * Provides easy-to-use components and directives for layout animations
  */
 
-import { JSX, Component, splitProps, children as resolveChildren, createContext, useContext } from "solid-js";
+import {
+  JSX,
+  Component,
+  splitProps,
+  children as resolveChildren,
+  createContext,
+  createRenderEffect,
+  useContext,
+} from "solid-js";
 import { Dynamic } from "solid-js/web";
-import { LayoutAnimationEngine, LayoutTransitionConfig, useLayoutAnimation } from "./layout-engine";
+import {
+  LAYOUT_CHILD_ATTRIBUTE,
+  LayoutAnimationEngine,
+  LayoutTransitionConfig,
+  useLayoutAnimation,
+} from "./layout-engine";
 
 /**
  * Global layout transition configuration context
@@ -80,11 +93,28 @@ export function layoutAnimation(
   }
 }
 
-// Type augmentation for directive
+/**
+ * Directive that keeps an element from being stretched by the layout animations
+ * of its ancestors: it is counter-scaled each frame while they animate their size
+ * 
+ * @example
+ * ```tsx
+ * <div use:layoutAnimation>
+ *   <img use:layoutChild src={avatar} />
+ *   <p use:layoutChild>Text that keeps its proportions</p>
+ * </div>
+ * ```
+ */
+export function layoutChild(element: HTMLElement, accessor: () => boolean | undefined): void {
+  createRenderEffect(() => element.toggleAttribute(LAYOUT_CHILD_ATTRIBUTE, accessor() !== false));
+}
+
+// Type augmentation for directives
 declare module "solid-js" {
   namespace JSX {
     interface Directives {
       layoutAnimation: LayoutTransitionConfig | boolean;
+      layoutChild: boolean;
     }
   }
 }
@@ -100,10 +130,11 @@ export interface LayoutAnimatedProps extends JSX.HTMLAttributes<HTMLElement> {
   as?: keyof JSX.IntrinsicElements | Component<any>;
   
   /**
-   * Enable layout animations
+   * Enable layout animations. `'preserve-aspect'` instead keeps the element from
+   * being stretched by its ancestors' layout animations, like `use:layoutChild`.
    * @default false
    */
-  layout?: boolean;
+  layout?: boolean | 'preserve-aspect';
   
   /**
    * Spring configuration for layout animations
@@ -111,6 +142,12 @@ export interface LayoutAnimatedProps extends JSX.HTMLAttributes<HTMLElement> {
    */
   layoutTransition?: LayoutTransitionConfig;
   
+  /**
+   * Shared layout id: the element animates from the last element with the same
+   * id when it replaces it. Enables layout animations.
+   */
+  layoutId?: string;
+  
   /**
    * Children elements
    */
@@ -128,11 +165,28 @@ export interface LayoutAnimatedProps extends JSX.HTMLAttributes<HTMLElement> {
  *   {expanded() && <div>Extra content</div>}
  * </LayoutAnimated>
  * 
+ * // Text inside keeps its proportions while the card animates its size
+ * <LayoutAnimated layout>
+ *   <LayoutAnimated as="p" layout="preserve-aspect">{text()}</LayoutAnimated>
+ * </LayoutAnimated>
+ * 
  * // Custom spring settings
  * <LayoutAnimated layout layoutTransition={{ stiffness: 400, damping: 30 }}>
  *   <button onClick={() => setExpanded(!expanded())}>Toggle</button>
  *   {expanded() && <div>Extra content</div>}
  * </LayoutAnimated>
+ * 
+ * // Tab underline that moves to the selected tab
+ * <For each={tabs}>
+ *   {(tab) => (
+ *     <button onClick={() => setSelected(tab)}>
+ *       {tab}
+ *       <Show when={selected() === tab}>
+ *         <LayoutAnimated layoutId="underline" class="underline" />
+ *       </Show>
+ *     </button>
+ *   )}
+ * </For>
  * ```
  */
 export function LayoutAnimated(props: LayoutAnimatedProps) {
@@ -140,6 +194,7 @@ export function LayoutAnimated(props: LayoutAnimatedProps) {
     'as',
     'layout',
     'layoutTransition',
+    'layoutId',
     'children'
   ]);
   
@@ -147,14 +202,17 @@ export function LayoutAnimated(props: LayoutAnimatedProps) {
   const resolvedChildren = resolveChildren(() => local.children);
   const component = local.as || 'div';
   
-  // Only enable layout animation if layout prop is true
+  // Counter-scaled by the layout animations of ancestors
+  const childProps = local.layout === 'preserve-aspect' ? { [LAYOUT_CHILD_ATTRIBUTE]: '' } : {};
+  
+  // Only enable layout animation if layout or layoutId is set
   // Merge global config with local config (local overrides global)
-  if (local.layout) {
-    const config = { ...globalConfig, ...local.layoutTransition };
+  if (local.layout === true || local.layoutId) {
+    const config = { ...globalConfig, ...local.layoutTransition, layoutId: local.layoutId };
     const layoutRef = useLayoutAnimation(config);
     
     return (
-      <Dynamic component={component} ref={layoutRef} {...restProps}>
+      <Dynamic component={component} ref={layoutRef} {...childProps} {...restProps}>
         {resolvedChildren()}
       </Dynamic>
     );
@@ -162,7 +220,7 @@ export function LayoutAnimated(props: LayoutAnimatedProps) {
   
   // No layout animation, just render normally
   return (
-    <Dynamic component={component} {...restProps}>
+    <Dynamic component={component} {...childProps} {...restProps}>
       {resolvedChildren()}
     </Dynamic>
   );
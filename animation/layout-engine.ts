@@ -5,7 +5,7 @@
  * size and position changes when elements change due to state updates.
  */
 
-import { createEffect, onCleanup, Accessor, createSignal } from "solid-js";
+import { createEffect, onCleanup, Accessor, createSignal, createRoot } from "solid-js";
 import { createSpring, SpringConfig } from "../utils/spring";
 
 /**
@@ -31,11 +31,21 @@ export interface LayoutTransitionConfig extends SpringConfig {
   animatePosition?: boolean;
   
   /**
-   * Whether to use transform for position animations (more performant)
+   * Whether to animate position and size with transforms (more performant).
+   * Size changes are animated with scale; border radius, box shadow and
+   * descendants marked with `use:layoutChild` are counter-scaled each frame.
+   * Without transforms, width and height are animated and position is not.
    * @default true
    */
   useTransform?: boolean;
   
+  /**
+   * Shared layout id. When an element with this id unmounts and another with the
+   * same id mounts, the new element animates from the old one's position, size
+   * and border radius.
+   */
+  layoutId?: string;
+  
   /**
    * Callback when layout animation starts
    */
@@ -57,10 +67,76 @@ interface LayoutSnapshot {
   height: number;
 }
 
+/**
+ * Layout snapshot with the border radius a projection interpolates
+ */
+interface ProjectionSnapshot extends LayoutSnapshot {
+  borderRadius: number;
+}
+
+/**
+ * The element currently holding a layout id, or the snapshot it left when it unmounted
+ */
+interface SharedLayoutEntry {
+  element: HTMLElement | null;
+  snapshot: ProjectionSnapshot;
+  removedAt: number;
+}
+
+type ResolvedLayoutConfig = Required<Omit<LayoutTransitionConfig, "layoutId">> & Pick<LayoutTransitionConfig, "layoutId">;
+
+/**
+ * How long a removed element's snapshot can start its successor's animation, in ms
+ */
+const SHARED_LAYOUT_LIFETIME = 1000;
+
+const sharedLayouts = new Map<string, SharedLayoutEntry>();
+
+const lerp = (from: number, to: number, progress: number) => from + (to - from) * progress;
+
+// Scale that makes a box of one size cover another, 1 for an empty target
+const scaleBetween = (from: number, to: number) => (to > 0 ? from / to : 1);
+
+/**
+ * Attribute of descendants that are counter-scaled during their ancestors'
+ * layout animations, set by `use:layoutChild` and `layout="preserve-aspect"`
+ */
+export const LAYOUT_CHILD_ATTRIBUTE = "data-layout-child";
+
+/**
+ * Descendants of an element that opted in to scale correction. One nested in
+ * another opted-in descendant is corrected through it.
+ */
+const layoutChildren = (element: HTMLElement): HTMLElement[] =>
+  Array.from(element.querySelectorAll<HTMLElement>(`[${LAYOUT_CHILD_ATTRIBUTE}]`)).filter((child) => {
+    const outer = child.parentElement?.closest(`[${LAYOUT_CHILD_ATTRIBUTE}]`);
+    return !outer || outer === element || !element.contains(outer);
+  });
+
+/**
+ * Undo a scale on box shadows: offsets by their axis, blur and spread by the mean
+ */
+const correctBoxShadow = (boxShadow: string, scaleX: number, scaleY: number): string => {
+  if (!boxShadow || boxShadow === "none") return boxShadow;
+  
+  const scales = [scaleX, scaleY, (scaleX + scaleY) / 2, (scaleX + scaleY) / 2];
+  let depth = 0;
+  let index = 0;
+  
+  // Lengths of each comma-separated shadow, skipping those inside color functions
+  return boxShadow.replace(/[(),]|(-?(?:\d*\.)?\d+)px/g, (token, length) => {
+    if (token === "(") depth++;
+    else if (token === ")") depth--;
+    else if (token === ",") index = depth === 0 ? 0 : index;
+    else if (depth === 0) return `${parseFloat(length) / scales[Math.min(index++, 3)]}px`;
+    return token;
+  });
+};
+
 /**
  * Default layout transition configuration
  */
-const DEFAULT_LAYOUT_CONFIG: Required<LayoutTransitionConfig> = {
+const DEFAULT_LAYOUT_CONFIG: Required<Omit<LayoutTransitionConfig, "layoutId">> = {
   stiffness: 300,
   damping: 30,
   precision: 0.01,
@@ -80,18 +156,16 @@ const DEFAULT_LAYOUT_CONFIG: Required<LayoutTransitionConfig> = {
  */
 export class LayoutAnimationEngine {
   private element: HTMLElement;
-  private config: Required<LayoutTransitionConfig>;
+  private config: ResolvedLayoutConfig;
   private previousSnapshot: LayoutSnapshot | null = null;
   private currentSnapshot: LayoutSnapshot | null = null;
   private resizeObserver: ResizeObserver | null = null;
   private rafId: number | null = null;
   private isAnimating = false;
   
-  // Spring animations for each dimension
+  // Spring animations for width and height when transforms are not used
   private widthSpring: ReturnType<typeof createSpring<number>> | null = null;
   private heightSpring: ReturnType<typeof createSpring<number>> | null = null;
-  private xSpring: ReturnType<typeof createSpring<number>> | null = null;
-  private ySpring: ReturnType<typeof createSpring<number>> | null = null;
   
   constructor(element: HTMLElement, config: LayoutTransitionConfig = {}) {
     this.element = element;
@@ -106,6 +180,10 @@ export class LayoutAnimationEngine {
     
     // Set up observers
     this.setupObservers();
+    
+    if (this.config.layoutId) {
+      this.takeSharedLayout(this.config.layoutId);
+    }
   }
   
   /**
@@ -125,11 +203,6 @@ export class LayoutAnimationEngine {
     if (this.config.animateHeight) {
       this.heightSpring = createSpring(0, springConfig);
     }
-    
-    if (this.config.animatePosition) {
-      this.xSpring = createSpring(0, springConfig);
-      this.ySpring = createSpring(0, springConfig);
-    }
   }
   
   /**
@@ -145,6 +218,155 @@ export class LayoutAnimationEngine {
     };
   }
   
+  /**
+   * Measure an element with the border radius a projection starts or ends at
+   */
+  private measureProjection(element: HTMLElement): ProjectionSnapshot {
+    const rect = element.getBoundingClientRect();
+    return {
+      x: rect.left + window.scrollX,
+      y: rect.top + window.scrollY,
+      width: rect.width,
+      height: rect.height,
+      borderRadius: parseFloat(getComputedStyle(element).borderTopLeftRadius) || 0,
+    };
+  }
+  
+  /**
+   * Become the element holding a layout id, animating from the previous holder
+   * when it is still mounted or has just unmounted
+   */
+  private takeSharedLayout(layoutId: string): void {
+    const previous = sharedLayouts.get(layoutId);
+    let source: ProjectionSnapshot | null = null;
+    
+    if (previous?.element && previous.element !== this.element && previous.element.isConnected) {
+      source = this.measureProjection(previous.element);
+    } else if (previous && !previous.element && performance.now() - previous.removedAt < SHARED_LAYOUT_LIFETIME) {
+      source = previous.snapshot;
+    }
+    
+    const target = this.measureProjection(this.element);
+    sharedLayouts.set(layoutId, { element: this.element, snapshot: target, removedAt: 0 });
+    
+    if (source) {
+      this.animateSharedLayout(source, target);
+    }
+  }
+  
+  /**
+   * Leave a snapshot for the next element with this element's layout id
+   */
+  private releaseSharedLayout(layoutId: string): void {
+    const entry = sharedLayouts.get(layoutId);
+    if (!entry || entry.element !== this.element) return;
+    
+    sharedLayouts.set(layoutId, {
+      element: null,
+      // A removed element keeps the snapshot it had while mounted
+      snapshot: this.element.isConnected ? this.measureProjection(this.element) : entry.snapshot,
+      removedAt: performance.now(),
+    });
+  }
+  
+  /**
+   * FLIP from another element's snapshot. The direct children are counter-scaled
+   * along with opted-in descendants, since the content changed with the element.
+   */
+  private animateSharedLayout(source: ProjectionSnapshot, target: ProjectionSnapshot): Promise<void> {
+    const children = Array.from(this.element.children).filter(
+      (child): child is HTMLElement => child instanceof HTMLElement
+    );
+    
+    return this.animateProjection(source, target, Array.from(new Set([...children, ...layoutChildren(this.element)])));
+  }
+  
+  /**
+   * FLIP: the element, already in its target layout, is scaled and translated to
+   * cover the source box, then springs back. Border radius, box shadow and the
+   * corrected descendants are counter-scaled each frame so they are not stretched.
+   */
+  private async animateProjection(
+    source: ProjectionSnapshot,
+    target: ProjectionSnapshot,
+    corrected: HTMLElement[]
+  ): Promise<void> {
+    const element = this.element;
+    const boxShadow = getComputedStyle(element).boxShadow;
+    
+    const correctRadius = source.borderRadius > 0 || target.borderRadius > 0;
+    const correctShadow = Boolean(boxShadow) && boxShadow !== "none";
+    
+    // Inline styles the projection overrides, restored when it finishes. Corners
+    // are saved one by one: the shorthand reads empty when they differ.
+    const saved = [element, ...corrected].map((node) => ({
+      node,
+      transform: node.style.transform,
+      transformOrigin: node.style.transformOrigin,
+      ...(node === element && correctRadius
+        ? {
+            borderTopLeftRadius: node.style.borderTopLeftRadius,
+            borderTopRightRadius: node.style.borderTopRightRadius,
+            borderBottomRightRadius: node.style.borderBottomRightRadius,
+            borderBottomLeftRadius: node.style.borderBottomLeftRadius,
+          }
+        : {}),
+      ...(node === element && correctShadow ? { boxShadow: node.style.boxShadow } : {}),
+    }));
+    
+    const project = (progress: number) => {
+      const scaleX = lerp(scaleBetween(source.width, target.width), 1, progress);
+      const scaleY = lerp(scaleBetween(source.height, target.height), 1, progress);
+      const x = lerp(source.x - target.x, 0, progress);
+      const y = lerp(source.y - target.y, 0, progress);
+      const radius = lerp(source.borderRadius, target.borderRadius, progress);
+      
+      element.style.transformOrigin = "0 0";
+      element.style.transform = `translate(${x}px, ${y}px) scale(${scaleX}, ${scaleY})`;
+      if (correctRadius) {
+        element.style.borderRadius = `${radius / scaleX}px / ${radius / scaleY}px`;
+      }
+      if (correctShadow) {
+        element.style.boxShadow = correctBoxShadow(boxShadow, scaleX, scaleY);
+      }
+      
+      for (const child of corrected) {
+        child.style.transformOrigin = "0 0";
+        child.style.transform = `scale(${1 / scaleX}, ${1 / scaleY})`;
+      }
+    };
+    
+    this.isAnimating = true;
+    this.config.onLayoutAnimationStart(element);
+    project(0);
+    
+    // Projections start from effects after an await and from observer callbacks, with
+    // no owner to clean up the spring, so each one gets its own root. A frame the
+    // spring still runs after it resolved must not undo the restored styles.
+    let settled = false;
+    await createRoot(async (dispose) => {
+      const [, setProgress] = createSpring(0, {
+        stiffness: this.config.stiffness,
+        damping: this.config.damping,
+        precision: this.config.precision,
+        onUpdate: (progress) => {
+          if (!settled) project(progress);
+        },
+      });
+      await setProgress(1);
+      settled = true;
+      dispose();
+    });
+    
+    for (const { node, ...styles } of saved) {
+      Object.assign(node.style, styles);
+    }
+    
+    this.currentSnapshot = this.measureElement();
+    this.isAnimating = false;
+    this.config.onLayoutAnimationComplete(element);
+  }
+  
   /**
    * Set up ResizeObserver and position tracking
    */
@@ -216,6 +438,25 @@ export class LayoutAnimationEngine {
   private async animateLayout(): Promise<void> {
     if (!this.previousSnapshot || !this.currentSnapshot) return;
     
+    if (this.config.useTransform) {
+      const previous = this.previousSnapshot;
+      const target = this.measureProjection(this.element);
+      
+      // Dimensions that are not animated start where they end
+      await this.animateProjection(
+        {
+          x: this.config.animatePosition ? previous.x : target.x,
+          y: this.config.animatePosition ? previous.y : target.y,
+          width: this.config.animateWidth ? previous.width : target.width,
+          height: this.config.animateHeight ? previous.height : target.height,
+          borderRadius: target.borderRadius,
+        },
+        target,
+        layoutChildren(this.element)
+      );
+      return;
+    }
+    
     this.isAnimating = true;
     this.config.onLayoutAnimationStart(this.element);
     
@@ -257,36 +498,6 @@ export class LayoutAnimationEngine {
       });
     }
     
-    // Animate position
-    if (
-      this.config.animatePosition &&
-      this.xSpring &&
-      this.ySpring &&
-      (Math.abs(this.currentSnapshot.x - this.previousSnapshot.x) > 0.5 ||
-       Math.abs(this.currentSnapshot.y - this.previousSnapshot.y) > 0.5)
-    ) {
-      const [x, setX] = this.xSpring;
-      const [y, setY] = this.ySpring;
-      
-      const deltaX = this.currentSnapshot.x - this.previousSnapshot.x;
-      const deltaY = this.currentSnapshot.y - this.previousSnapshot.y;
-      
-      setX(deltaX, { hard: true });
-      setY(deltaY, { hard: true });
-      
-      promises.push(setX(0));
-      promises.push(setY(0));
-      
-      // Apply position animation using transform
-      createEffect(() => {
-        if (this.element && this.config.useTransform) {
-          const currentX = x();
-          const currentY = y();
-          this.element.style.transform = `translate(${-currentX}px, ${-currentY}px)`;
-        }
-      });
-    }
-    
     // Wait for all animations to complete
     await Promise.all(promises);
     
@@ -298,9 +509,6 @@ export class LayoutAnimationEngine {
       if (this.config.animateHeight) {
         this.element.style.height = '';
       }
-      if (this.config.useTransform) {
-        this.element.style.transform = '';
-      }
     }
     
     this.isAnimating = false;
@@ -318,6 +526,10 @@ export class LayoutAnimationEngine {
    * Clean up observers and animations
    */
   public destroy(): void {
+    if (this.config.layoutId) {
+      this.releaseSharedLayout(this.config.layoutId);
+    }
+    
     if (this.resizeObserver) {
       this.resizeObserver.disconnect();
       this.resizeObserver = null;
@@ -0,0 +1,182 @@
+/**
+ * Presence Component
+ *
+ * Keeps removed children mounted while their exit animations run
+ */
+
+import { JSX, children as resolveChildren, createComputed, createSignal, untrack } from "solid-js";
+
+/**
+ * Runs an element's exit animation and resolves when it has finished
+ */
+export type ExitAnimation = (custom?: unknown) => Promise<void>;
+
+/**
+ * How entering and exiting children are rendered together
+ * - `sync`: new children enter while removed ones exit in place
+ * - `wait`: new children enter once every removed one has exited
+ * - `popLayout`: removed children are taken out of the layout while they exit,
+ *   so siblings move into their place immediately
+ */
+export type PresenceMode = "sync" | "wait" | "popLayout";
+
+/**
+ * Props for the Presence component
+ */
+export interface PresenceProps {
+  /**
+   * How entering and exiting children are rendered together
+   * @default 'sync'
+   */
+  mode?: PresenceMode;
+
+  /**
+   * Data passed to the exit animations of removed children. Their own props are
+   * no longer updated once they are removed, so this is how an exit can depend
+   * on state that changed with the removal, such as a slide direction.
+   */
+  custom?: unknown;
+
+  /**
+   * Called when every removed child has finished exiting
+   */
+  onExitComplete?: () => void;
+
+  /**
+   * Children elements
+   */
+  children?: JSX.Element;
+}
+
+// Exit animations by element, registered by animated components with an `exit` prop
+const exitAnimations = new WeakMap<Element, ExitAnimation>();
+
+/**
+ * Register the exit animation Presence runs when the element is removed.
+ * Pass null to remove it.
+ */
+export function registerExitAnimation(element: Element, animation: ExitAnimation | null): void {
+  if (animation) {
+    exitAnimations.set(element, animation);
+  } else {
+    exitAnimations.delete(element);
+  }
+}
+
+// Take an exiting element out of the layout without moving it
+const popFromLayout = (element: Element) => {
+  if (!(element instanceof HTMLElement)) return;
+
+  const { offsetTop, offsetLeft, offsetWidth, offsetHeight } = element;
+  Object.assign(element.style, {
+    position: "absolute",
+    top: `${offsetTop}px`,
+    left: `${offsetLeft}px`,
+    width: `${offsetWidth}px`,
+    height: `${offsetHeight}px`,
+  });
+};
+
+/**
+ * Keeps children mounted until the `exit` animation of each removed child has
+ * finished. Children without an exit animation are removed immediately.
+ *
+ * With `mode="popLayout"`, exiting children are positioned absolutely at their
+ * last offset, so the parent should be positioned.
+ *
+ * @example
+ * ```tsx
+ * <Presence>
+ *   <Show when={open()}>
+ *     <animated.div
+ *       initial={{ opacity: 0 }}
+ *       animate={{ from: { opacity: 0 }, to: { opacity: 1 } }}
+ *       exit={{ opacity: 0 }}
+ *     >
+ *       Modal
+ *     </animated.div>
+ *   </Show>
+ * </Presence>
+ *
+ * // Slide pages out in the direction of navigation
+ * <Presence mode="wait" custom={direction()} onExitComplete={() => window.scrollTo(0, 0)}>
+ *   <Show when={page()} keyed>
+ *     {(page) => <animated.section exit={(direction: number) => ({ x: direction * -100 })}>{page}</animated.section>}
+ *   </Show>
+ * </Presence>
+ * ```
+ */
+export function Presence(props: PresenceProps) {
+  const resolved = resolveChildren(() => props.children);
+  const [rendered, setRendered] = createSignal<JSX.Element[]>([]);
+
+  const exiting = new Set<JSX.Element>();
+  // Latest children; in wait mode they are held back until the exits finish
+  let target: JSX.Element[] = [];
+
+  const finishExit = (node: JSX.Element) => {
+    if (!exiting.delete(node)) return;
+
+    // A child that came back while exiting stays
+    if (!target.includes(node)) {
+      setRendered((nodes) => nodes.filter((rendered) => rendered !== node));
+    }
+
+    if (exiting.size === 0) {
+      if (props.mode === "wait") setRendered(target);
+      props.onExitComplete?.();
+    }
+  };
+
+  const update = (next: JSX.Element[]) => {
+    const current = rendered();
+    const nextSet = new Set(next);
+    target = next;
+
+    // A child that came back is no longer removed when its exit finishes
+    for (const node of next) exiting.delete(node);
+
+    const leaving = current.filter((node) => !nextSet.has(node));
+    const animated = leaving.filter(
+      (node) =>
+        exiting.has(node) || (typeof Element !== "undefined" && node instanceof Element && exitAnimations.has(node))
+    );
+
+    if (props.mode === "wait") {
+      // New children wait; the ones that stay and the ones exiting are kept
+      const waiting = animated.length > 0 || exiting.size > 0;
+      setRendered(waiting ? current.filter((node) => nextSet.has(node) || animated.includes(node)) : next);
+    } else {
+      // Exiting children keep their place after the child that preceded them
+      const merged = [...next];
+      current.forEach((node, index) => {
+        if (nextSet.has(node) || !animated.includes(node)) return;
+        const previous = current
+          .slice(0, index)
+          .reverse()
+          .find((candidate) => merged.includes(candidate));
+        merged.splice(previous ? merged.indexOf(previous) + 1 : 0, 0, node);
+      });
+      setRendered(merged);
+    }
+
+    for (const node of animated) {
+      if (exiting.has(node)) continue;
+      exiting.add(node);
+
+      if (props.mode === "popLayout") popFromLayout(node as Element);
+
+      // A failed exit still removes the child
+      exitAnimations.get(node as Element)!(props.custom)
+        .catch(() => {})
+        .then(() => finishExit(node));
+    }
+  };
+
+  createComputed(() => {
+    const next = resolved.toArray();
+    untrack(() => update(next));
+  });
+
+  return <>{rendered()}</>;
+}
@@ -0,0 +1,367 @@
+/**
+ * Reorder Components
+ *
+ * Drag-to-reorder lists built on gesture dragging and spring layout moves
+ */
+
+import {
+  Accessor,
+  Component,
+  JSX,
+  createContext,
+  createEffect,
+  createMemo,
+  createSignal,
+  onCleanup,
+  splitProps,
+  useContext,
+} from "solid-js";
+import { Dynamic } from "solid-js/web";
+import { createSpring } from "../utils/spring";
+import { useGestures } from "./advanced/gesture-support";
+
+/**
+ * Direction items are laid out and dragged in. `grid` reorders in both directions.
+ */
+export type ReorderAxis = "x" | "y" | "grid";
+
+type Point = { x: number; y: number };
+
+// Layout box of an item, without transforms
+interface ItemBox {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Props for Reorder.Group
+ */
+export interface ReorderGroupProps<T> extends Omit<JSX.HTMLAttributes<HTMLElement>, "children"> {
+  /**
+   * The element type to render
+   * @default 'ul'
+   */
+  as?: keyof JSX.IntrinsicElements | Component<any>;
+
+  /**
+   * @default 'y'
+   */
+  axis?: ReorderAxis;
+
+  /**
+   * The values in their current order, one per Reorder.Item
+   */
+  values: T[];
+
+  /**
+   * Called with the new order, typically the setter of the `values` signal
+   */
+  onReorder: (values: T[]) => void;
+
+  /**
+   * Spring configuration for items moving into their slots. Read when each item
+   * is created, so a change applies to items added afterwards.
+   */
+  transition?: {
+    stiffness?: number;
+    damping?: number;
+    precision?: number;
+  };
+
+  children?: JSX.Element;
+}
+
+/**
+ * Props for Reorder.Item
+ */
+export interface ReorderItemProps<T> extends JSX.HTMLAttributes<HTMLElement> {
+  /**
+   * The element type to render
+   * @default 'li'
+   */
+  as?: keyof JSX.IntrinsicElements | Component<any>;
+
+  /**
+   * The value of this item in the group's `values`
+   */
+  value: T;
+
+  style?: JSX.CSSProperties;
+}
+
+interface ReorderItemHandle {
+  element: Accessor<HTMLElement | undefined>;
+  offset: () => Point;
+  /**
+   * Keep the item where it was drawn after its layout moved. It then springs
+   * into its slot unless it is being dragged.
+   */
+  shift: (delta: Point, settle: boolean) => void;
+  settle: () => void;
+}
+
+interface ReorderContextValue {
+  axis: () => ReorderAxis;
+  spring: () => NonNullable<ReorderGroupProps<unknown>["transition"]>;
+  register: (value: unknown, item: ReorderItemHandle) => void;
+  unregister: (value: unknown, item: ReorderItemHandle) => void;
+  drag: (value: unknown, offset: Point) => void;
+  dragEnd: (value: unknown) => void;
+  moveBy: (value: unknown, key: string) => boolean;
+}
+
+const ReorderContext = createContext<ReorderContextValue>();
+
+const measureBox = (element: HTMLElement): ItemBox => ({
+  left: element.offsetLeft,
+  top: element.offsetTop,
+  width: element.offsetWidth,
+  height: element.offsetHeight,
+});
+
+const moveValue = <T,>(values: T[], from: number, to: number): T[] => {
+  const next = [...values];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+};
+
+/**
+ * Container of reorderable items. Dragging an item past the middle of a
+ * neighbour calls `onReorder` with the new order, and the other items spring
+ * into their new slots. Focused items move with the arrow keys.
+ *
+ * @example
+ * ```tsx
+ * const [tasks, setTasks] = createSignal(["Write", "Review", "Ship"]);
+ *
+ * <Reorder.Group axis="y" values={tasks()} onReorder={setTasks}>
+ *   <For each={tasks()}>{(task) => <Reorder.Item value={task}>{task}</Reorder.Item>}</For>
+ * </Reorder.Group>
+ * ```
+ */
+function ReorderGroup<T>(props: ReorderGroupProps<T>) {
+  const [local, restProps] = splitProps(props, ["as", "axis", "values", "onReorder", "transition", "children"]);
+  const items = new Map<unknown, ReorderItemHandle>();
+
+  const boxes = () => {
+    const result = new Map<unknown, ItemBox>();
+    for (const [value, item] of items) {
+      const element = item.element();
+      if (element) result.set(value, measureBox(element));
+    }
+    return result;
+  };
+
+  // Move a value and keep every item where it was drawn, then let them spring into their slots
+  const reorder = (from: number, to: number, dragged?: unknown) => {
+    const before = boxes();
+    local.onReorder(moveValue(local.values, from, to));
+    const after = boxes();
+
+    for (const [value, item] of items) {
+      const previous = before.get(value);
+      const next = after.get(value);
+      if (!previous || !next) continue;
+
+      const delta = { x: previous.left - next.left, y: previous.top - next.top };
+      if (delta.x !== 0 || delta.y !== 0) item.shift(delta, value !== dragged);
+    }
+  };
+
+  // Index of the item the dragged one should take the place of
+  const dropIndex = (index: number, center: Point, layout: Map<unknown, ItemBox>): number => {
+    const axis = local.axis ?? "y";
+    const centerOf = (box: ItemBox) => ({ x: box.left + box.width / 2, y: box.top + box.height / 2 });
+
+    if (axis === "grid") {
+      const target = local.values.findIndex((value) => {
+        const box = layout.get(value);
+        return (
+          box !== undefined &&
+          center.x >= box.left &&
+          center.x <= box.left + box.width &&
+          center.y >= box.top &&
+          center.y <= box.top + box.height
+        );
+      });
+      return target === -1 ? index : target;
+    }
+
+    // Past the middle of a neighbour in the drag direction
+    let target = index;
+    local.values.forEach((value, other) => {
+      const box = layout.get(value);
+      if (!box || other === index) return;
+      const middle = centerOf(box)[axis];
+      if (other > index && center[axis] > middle) target = Math.max(target, other);
+      if (other < index && center[axis] < middle) target = Math.min(target, other);
+    });
+    return target;
+  };
+
+  const context: ReorderContextValue = {
+    axis: () => local.axis ?? "y",
+    spring: () => local.transition ?? {},
+    register: (value, item) => items.set(value, item),
+    unregister: (value, item) => {
+      if (items.get(value) === item) items.delete(value);
+    },
+    drag: (value, offset) => {
+      const index = local.values.indexOf(value as T);
+      const layout = boxes();
+      const box = layout.get(value);
+      const item = items.get(value);
+      if (index === -1 || !box || !item) return;
+
+      const held = item.offset();
+      const center = {
+        x: box.left + box.width / 2 + offset.x + held.x,
+        y: box.top + box.height / 2 + offset.y + held.y,
+      };
+      const target = dropIndex(index, center, layout);
+      if (target !== index) reorder(index, target, value);
+    },
+    dragEnd: (value) => items.get(value)?.settle(),
+    moveBy: (value, key) => {
+      const index = local.values.indexOf(value as T);
+      if (index === -1) return false;
+
+      const axis = local.axis ?? "y";
+      const layout = boxes();
+      // Items in the first row of a grid
+      const columns = Math.max(
+        1,
+        local.values.filter((other) => layout.get(other)?.top === layout.get(local.values[0])?.top).length
+      );
+      const steps: Record<string, number> = {
+        ArrowUp: axis === "y" ? -1 : axis === "grid" ? -columns : 0,
+        ArrowDown: axis === "y" ? 1 : axis === "grid" ? columns : 0,
+        ArrowLeft: axis === "y" ? 0 : -1,
+        ArrowRight: axis === "y" ? 0 : 1,
+      };
+      const target = index + (steps[key] ?? 0);
+      if (target === index || target < 0 || target >= local.values.length) return false;
+
+      reorder(index, target);
+      return true;
+    },
+  };
+
+  return (
+    <ReorderContext.Provider value={context}>
+      <Dynamic component={local.as ?? "ul"} {...restProps}>
+        {local.children}
+      </Dynamic>
+    </ReorderContext.Provider>
+  );
+}
+
+/**
+ * Item of a Reorder.Group. It can be dragged along the group's axis, and moved
+ * with the arrow keys while focused.
+ */
+function ReorderItem<T>(props: ReorderItemProps<T>) {
+  const group = useContext(ReorderContext);
+  if (!group) {
+    throw new Error("Reorder.Item must be used inside a Reorder.Group");
+  }
+
+  const [local, restProps] = splitProps(props, ["as", "value", "style", "onKeyDown", "ref"]);
+  const [element, setElement] = createSignal<HTMLElement>();
+  const [isHeld, setIsHeld] = createSignal(false);
+  const [layoutOffset, setLayoutOffset] = createSpring({ x: 0, y: 0 }, group.spring());
+
+  const { transformStyles, isDragging } = useGestures(element, {
+    gestures: { drag: true, swipe: false, pinch: false },
+    drag: {
+      // Read on each move, so a new axis on the group applies to existing items
+      get axis() {
+        const axis = group.axis();
+        return axis === "grid" ? "both" : axis;
+      },
+      // Released items spring back into their slot
+      snapPoints: [{ x: 0, y: 0 }],
+      onDrag: (offset) => group.drag(local.value, offset),
+      onDragEnd: () => group.dragEnd(local.value),
+    },
+    spring: group.spring(),
+  });
+
+  const handle: ReorderItemHandle = {
+    element,
+    offset: () => layoutOffset() as Point,
+    shift: (delta, settle) => {
+      const current = layoutOffset() as Point;
+      setLayoutOffset({ x: current.x + delta.x, y: current.y + delta.y }, { hard: true });
+      if (settle) {
+        setLayoutOffset({ x: 0, y: 0 });
+      } else {
+        setIsHeld(true);
+      }
+    },
+    settle: () => {
+      setIsHeld(false);
+      setLayoutOffset({ x: 0, y: 0 });
+    },
+  };
+
+  createEffect(() => {
+    const value = local.value;
+    if (!element()) return;
+
+    group.register(value, handle);
+    onCleanup(() => group.unregister(value, handle));
+  });
+
+  const style = createMemo((): JSX.CSSProperties => {
+    const gesture = transformStyles();
+    const offset = layoutOffset() as Point;
+
+    return {
+      ...local.style,
+      ...gesture,
+      transform: `${gesture.transform} translate(${offset.x}px, ${offset.y}px)`,
+      position: "relative",
+      // The dragged item is drawn above the ones moving out of its way
+      "z-index": isDragging() || isHeld() ? 1 : local.style?.["z-index"],
+    };
+  });
+
+  const handleKeyDown: JSX.EventHandler<HTMLElement, KeyboardEvent> = (event) => {
+    // Solid's bound form `onKeyDown={[handler, data]}` calls the handler with the data first
+    const onKeyDown = local.onKeyDown;
+    if (typeof onKeyDown === "function") onKeyDown(event);
+    else if (onKeyDown) onKeyDown[0](onKeyDown[1], event);
+    if (event.defaultPrevented || !group.moveBy(local.value, event.key)) return;
+
+    event.preventDefault();
+    // Moving the element in the DOM can drop its focus
+    const el = element();
+    if (el && document.activeElement !== el) el.focus();
+  };
+
+  return (
+    <Dynamic
+      component={local.as ?? "li"}
+      ref={(el: HTMLElement) => {
+        setElement(el);
+        if (typeof local.ref === "function") local.ref(el);
+      }}
+      tabIndex={0}
+      {...restProps}
+      style={style()}
+      onKeyDown={handleKeyDown}
+    />
+  );
+}
+
+/**
+ * Drag-to-reorder primitives
+ */
+export const Reorder = {
+  Group: ReorderGroup,
+  Item: ReorderItem,
+};
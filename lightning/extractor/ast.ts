@@ -0,0 +1,258 @@
+/**
+ * Lightning CSS AST Module
+ *
+ * Parses a module once with the TypeScript compiler and finds its styled
+ * declarations. The parse is cached per file, so the styled transform and the
+ * Lightning extractor share it instead of each scanning the source.
+ */
+
+import ts from "typescript";
+import MagicString from "magic-string";
+import * as path from "path";
+import { hashString } from "../../src/class-names";
+import type { SourceLocation } from "../types";
+
+/**
+ * Methods that can be chained between `styled.tag` and its styles
+ */
+const CHAIN_METHODS = new Set(["attrs", "withConfig", "variants"]);
+
+/**
+ * A method chained before the styles: `.attrs(...)`, `.withConfig(...)` or `.variants(...)`
+ */
+export interface StyledChainCall {
+  name: string;
+  arguments: readonly ts.Expression[];
+}
+
+/**
+ * A `styled.tag\`...\``, `styled(Component)\`...\`` or `styled.tag({ ... })` expression
+ */
+export interface StyledDeclaration {
+  /**
+   * Name of the variable the component is assigned to, if any
+   */
+  componentName?: string;
+  /**
+   * Tag name (`"button"`) or the source of the styled component (`"Button"`)
+   */
+  tag: string;
+  /**
+   * The whole expression, from `styled` to the end of its styles
+   */
+  node: ts.TaggedTemplateExpression | ts.CallExpression;
+  /**
+   * End of `styled.tag` or `styled(Component)`, before any chained method
+   */
+  baseEnd: number;
+  chain: StyledChainCall[];
+  /**
+   * The template literal, or the argument of object styles
+   */
+  styles: ts.TemplateLiteral | ts.Expression;
+  /**
+   * 1-based position of the expression in the source
+   */
+  line: number;
+  column: number;
+}
+
+/**
+ * A module parsed once for every transform that needs it
+ */
+export interface ParsedModule {
+  sourceFile: ts.SourceFile;
+  styled: StyledDeclaration[];
+}
+
+/**
+ * A replacement of `code.slice(start, end)` with `text`
+ */
+export interface SourceEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+// Last parse of each file, reused while its code is unchanged
+const parseCache = new Map<string, { code: string; parsed: ParsedModule }>();
+
+const scriptKind = (filename: string): ts.ScriptKind => {
+  if (/\.tsx$/.test(filename)) return ts.ScriptKind.TSX;
+  if (/\.[cm]?ts$/.test(filename)) return ts.ScriptKind.TS;
+  if (/\.jsx$/.test(filename)) return ts.ScriptKind.JSX;
+  // Plain .js may hold JSX in Solid projects
+  return /\.[cm]?js$/.test(filename) ? ts.ScriptKind.JSX : ts.ScriptKind.TSX;
+};
+
+/**
+ * `styled.tag` or `styled(Component)`, with the tag's text
+ */
+function styledBaseTag(expression: ts.Expression): string | null {
+  if (
+    ts.isPropertyAccessExpression(expression) &&
+    ts.isIdentifier(expression.expression) &&
+    expression.expression.text === "styled"
+  ) {
+    return expression.name.text;
+  }
+
+  if (
+    ts.isCallExpression(expression) &&
+    ts.isIdentifier(expression.expression) &&
+    expression.expression.text === "styled" &&
+    expression.arguments.length >= 1
+  ) {
+    const [target] = expression.arguments;
+    return ts.isStringLiteralLike(target) ? target.text : target.getText();
+  }
+
+  return null;
+}
+
+/**
+ * Peel chained methods off an expression down to its styled base
+ */
+function resolveStyledBase(
+  expression: ts.Expression
+): { tag: string; base: ts.Expression; chain: StyledChainCall[] } | null {
+  const chain: StyledChainCall[] = [];
+  let current = expression;
+
+  while (
+    ts.isCallExpression(current) &&
+    ts.isPropertyAccessExpression(current.expression) &&
+    CHAIN_METHODS.has(current.expression.name.text)
+  ) {
+    chain.unshift({ name: current.expression.name.text, arguments: current.arguments });
+    current = current.expression.expression;
+  }
+
+  const tag = styledBaseTag(current);
+  return tag === null ? null : { tag, base: current, chain };
+}
+
+/**
+ * Whether a node is the argument of an `animated(...)` call
+ */
+export const isAnimatedArgument = (node: ts.Node): boolean =>
+  ts.isCallExpression(node.parent) &&
+  ts.isIdentifier(node.parent.expression) &&
+  node.parent.expression.text === "animated" &&
+  node.parent.arguments.includes(node as ts.Expression);
+
+// Name of the variable a styled expression is assigned to, directly or wrapped in animated()
+function bindingName(node: ts.Node): string | undefined {
+  let current = node;
+  while (
+    current.parent &&
+    (ts.isParenthesizedExpression(current.parent) || ts.isAsExpression(current.parent) || isAnimatedArgument(current))
+  ) {
+    current = current.parent;
+  }
+  const parent = current.parent;
+  return parent && ts.isVariableDeclaration(parent) && ts.isIdentifier(parent.name) ? parent.name.text : undefined;
+}
+
+/**
+ * Parse a module and find its styled declarations. Reuses the previous parse of
+ * the file while its code is unchanged.
+ */
+export function parseModule(code: string, filename: string): ParsedModule {
+  const cached = parseCache.get(filename);
+  if (cached?.code === code) return cached.parsed;
+
+  const sourceFile = ts.createSourceFile(filename, code, ts.ScriptTarget.Latest, true, scriptKind(filename));
+  const styled: StyledDeclaration[] = [];
+
+  const visit = (node: ts.Node) => {
+    let resolved: ReturnType<typeof resolveStyledBase> = null;
+    let styles: ts.TemplateLiteral | ts.Expression | undefined;
+
+    if (ts.isTaggedTemplateExpression(node)) {
+      resolved = resolveStyledBase(node.tag);
+      styles = node.template;
+    } else if (ts.isCallExpression(node) && node.arguments.length > 0) {
+      // Object styles: the callee is the styled base itself, not one of its chained methods
+      resolved = resolveStyledBase(node.expression);
+      styles = node.arguments[0];
+    }
+
+    if (resolved && styles) {
+      const { line, column } = locationOf(node, sourceFile);
+      styled.push({
+        componentName: bindingName(node),
+        tag: resolved.tag,
+        node: node as ts.TaggedTemplateExpression | ts.CallExpression,
+        baseEnd: resolved.base.end,
+        chain: resolved.chain,
+        styles,
+        line,
+        column,
+      });
+    }
+
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  const parsed = { sourceFile, styled };
+  parseCache.set(filename, { code, parsed });
+  return parsed;
+}
+
+/**
+ * Location of a node, for messages and source maps
+ */
+export function locationOf(node: ts.Node, sourceFile: ts.SourceFile): SourceLocation {
+  const start = node.getStart(sourceFile);
+  const { line, character } = sourceFile.getLineAndCharacterOfPosition(start);
+  return { file: sourceFile.fileName, line: line + 1, column: character + 1, start, end: node.end };
+}
+
+/**
+ * Stable id of a component, from its name and the path of its file relative to
+ * the working directory, so it is the same on every machine
+ */
+export function componentIdFor(componentName: string, filename: string): string {
+  const relative = path.isAbsolute(filename) ? path.relative(process.cwd(), filename) : filename;
+  return `${componentName}-${hashString(relative.split(path.sep).join("/"))}`;
+}
+
+/**
+ * Value of a string property in the `withConfig()` calls of a chain. Later calls win,
+ * as they do at runtime.
+ */
+export function chainConfigValue(chain: StyledChainCall[], key: string): string | undefined {
+  let value: string | undefined;
+  for (const call of chain) {
+    const [config] = call.arguments;
+    if (call.name !== "withConfig" || !config || !ts.isObjectLiteralExpression(config)) continue;
+
+    for (const property of config.properties) {
+      if (
+        ts.isPropertyAssignment(property) &&
+        property.name.getText().replace(/^["']|["']$/g, "") === key &&
+        ts.isStringLiteralLike(property.initializer)
+      ) {
+        value = property.initializer.text;
+      }
+    }
+  }
+  return value;
+}
+
+/**
+ * Apply non-overlapping edits to the code they were computed from. The result
+ * tracks where each part came from, so a plugin can return its source map.
+ */
+export function applyEdits(code: string, edits: SourceEdit[]): MagicString {
+  const result = new MagicString(code);
+  // appendLeft adds after earlier insertions at the same offset, so they keep their order;
+  // update keeps the insertions at the edges of the text it replaces
+  for (const { start, end, text } of edits) {
+    if (start === end) result.appendLeft(start, text);
+    else result.update(start, end, text);
+  }
+  return result;
+}
@@ -0,0 +1,189 @@
+/**
+ * Lightning CSS Atomic Module
+ *
+ * Splits extracted styles into atomic classes: each property under a given
+ * selector and set of at-rules (`color: red` inside `&:hover` and
+ * `@media (min-width: 600px)`) becomes one class, shared by every component and
+ * prop combination that uses it. The stylesheet then grows with the number of
+ * distinct declarations rather than the number of components.
+ */
+
+import type { AtomicRule, ExtractedStyle } from "../types";
+import { CONDITIONAL_AT_RULE, parseCss, splitSelectorList, type CssNode } from "../../src/css-compiler";
+import { atomicClassName, hashString } from "../../src/class-names";
+import { mergeDuplicateRules } from "./generator";
+
+// Declarations of one property in one context, kept together so fallbacks
+// (`display: -webkit-box; display: flex`) stay in order
+interface DeclarationGroup {
+  conditions: string[];
+  // Selector with the component's class replaced by `&`
+  pattern: string;
+  property: string;
+  declarations: string[];
+}
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Split one compiled style into atomic rules. Returns null when it cannot be split
+ * without changing its meaning: rules outside the component's class, at-rules
+ * such as `@keyframes`, or a shorthand and one of its longhands set in the same
+ * context, whose order would no longer be the component's.
+ */
+export function atomizeStyle(style: ExtractedStyle, namespace?: string): AtomicRule[] | null {
+  // The class itself, not a longer class starting with its name
+  const ownClass = new RegExp(`${escapeRegExp(`.${style.className}`)}(?![\\w-])`, "g");
+  const groups = new Map<string, DeclarationGroup>();
+
+  const visit = (nodes: CssNode[], conditions: string[]): boolean => {
+    for (const node of nodes) {
+      // Compiled CSS has no declarations outside a rule, only statements like `@layer a, b;`
+      if (node.type === "declaration") return false;
+
+      if (node.prelude.startsWith("@")) {
+        if (!CONDITIONAL_AT_RULE.test(node.prelude) || !visit(node.children, [...conditions, node.prelude])) {
+          return false;
+        }
+        continue;
+      }
+
+      const selectors = splitSelectorList(node.prelude);
+      if (!selectors.every((selector) => selector.match(ownClass))) return false;
+      const pattern = selectors.map((selector) => selector.replace(ownClass, "&")).join(", ");
+
+      for (const child of node.children) {
+        if (child.type !== "declaration" || !child.value.includes(":")) return false;
+
+        const property = child.value.slice(0, child.value.indexOf(":")).trim().toLowerCase();
+        const key = JSON.stringify([conditions, pattern, property]);
+        const group = groups.get(key) ?? { conditions, pattern, property, declarations: [] };
+        group.declarations.push(child.value);
+        groups.set(key, group);
+      }
+    }
+    return true;
+  };
+
+  if (!visit(parseCss(style.css), [])) return null;
+
+  // `padding` and `padding-left` in one context depend on their order
+  const properties = new Map<string, string[]>();
+  for (const { conditions, pattern, property } of groups.values()) {
+    const context = JSON.stringify([conditions, pattern]);
+    properties.set(context, [...(properties.get(context) ?? []), property]);
+  }
+  for (const names of properties.values()) {
+    if (names.some((name) => !name.startsWith("--") && names.some((other) => other.startsWith(`${name}-`)))) {
+      return null;
+    }
+  }
+
+  return Array.from(groups.values()).map(({ conditions, pattern, declarations }) => {
+    const body = declarations.map((declaration) => `${declaration};`).join(" ");
+    const className = atomicClassName([...conditions, pattern, body].join("\n"), namespace);
+    const rule = `${pattern.replace(/&/g, `.${className}`)} { ${body} }`;
+
+    return {
+      className,
+      css: conditions.reduceRight((inner, condition) => `${condition} { ${inner} }`, rule),
+      conditions,
+      order: conditions.length * 2 + (pattern === "&" ? 0 : 1),
+    };
+  });
+}
+
+/**
+ * Convert extracted styles to atomic mode. Each style keeps its prop combination
+ * and resolver key; its `className` becomes the list of its atomic classes.
+ * Styles that cannot be split keep their component class.
+ */
+export function toAtomicStyles(styles: ExtractedStyle[], namespace?: string): ExtractedStyle[] {
+  return styles.map((style) => {
+    const atomicRules = atomizeStyle(style, namespace);
+    if (!atomicRules) {
+      console.log(`[Lightning CSS] Keeping the component class ${style.className}: its rules cannot be split`);
+      return style;
+    }
+
+    return {
+      ...style,
+      className: atomicRules.map((rule) => rule.className).join(" "),
+      css: atomicRules.map((rule) => rule.css).join("\n"),
+      atomicRules,
+    };
+  });
+}
+
+/**
+ * Rank the at-rule lists of atomic rules so every style sees its own at-rules in
+ * its source order. Two `@media` queries one component declares in order keep that
+ * order, even when another component used the second one first. Lists of the same
+ * depth are ranked by these constraints, then by first use; styles that disagree
+ * fall back to first use.
+ */
+function rankConditions(styles: ExtractedStyle[]): Map<string, number> {
+  const depths = new Map<string, number>();
+  // Lists that must come after each list
+  const successors = new Map<string, Set<string>>();
+
+  for (const style of styles) {
+    const byDepth = new Map<number, string[]>();
+    for (const { conditions } of style.atomicRules ?? []) {
+      const key = JSON.stringify(conditions);
+      if (!depths.has(key)) depths.set(key, conditions.length);
+      const keys = byDepth.get(conditions.length) ?? [];
+      if (!keys.includes(key)) byDepth.set(conditions.length, [...keys, key]);
+    }
+    for (const keys of byDepth.values()) {
+      keys.slice(1).forEach((key, index) => {
+        successors.set(keys[index], (successors.get(keys[index]) ?? new Set()).add(key));
+      });
+    }
+  }
+
+  const ranks = new Map<string, number>();
+  const remaining = Array.from(depths.keys());
+  while (remaining.length > 0) {
+    const isReady = (key: string) => !remaining.some((other) => successors.get(other)?.has(key));
+    const next = remaining.find(isReady) ?? remaining[0];
+    ranks.set(next, ranks.size);
+    remaining.splice(remaining.indexOf(next), 1);
+  }
+  return ranks;
+}
+
+/**
+ * Build the stylesheet of atomic styles: each atomic rule once, in cascade order,
+ * after the component classes of styles that were not split
+ */
+export function mergeAtomicRules(styles: ExtractedStyle[]): ExtractedStyle[] {
+  const rules = new Map<string, AtomicRule>();
+  const componentStyles: ExtractedStyle[] = [];
+
+  for (const style of styles) {
+    if (!style.atomicRules) {
+      componentStyles.push(style);
+      continue;
+    }
+    for (const rule of style.atomicRules) {
+      if (!rules.has(rule.className)) rules.set(rule.className, rule);
+    }
+  }
+
+  // Sorting is stable, so rules of one order and at-rule list keep the order they were first used in
+  const conditionRanks = rankConditions(styles);
+  const rankOf = (rule: AtomicRule) => conditionRanks.get(JSON.stringify(rule.conditions)) ?? 0;
+  const atomicStyles = Array.from(rules.values())
+    .sort((a, b) => a.order - b.order || rankOf(a) - rankOf(b))
+    .map(
+      (rule): ExtractedStyle => ({
+        className: rule.className,
+        css: rule.css,
+        propCombination: {},
+        hash: hashString(rule.css),
+      })
+    );
+
+  return [...mergeDuplicateRules(componentStyles), ...atomicStyles];
+}
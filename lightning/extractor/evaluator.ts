@@ -0,0 +1,269 @@
+/**
+ * Lightning CSS Evaluator Module
+ *
+ * Folds values imported from other modules into static CSS. Design tokens
+ * (`colors.primary`) and pure helpers (`spacing(2)`) are evaluated at build time
+ * by running the modules that define them in a separate VM context, with no
+ * access to the build's globals, the clock or random numbers, and a time limit.
+ * Evaluated modules are cached until one of the files they loaded changes.
+ *
+ * The context keeps evaluation isolated and bounded; it is not a security
+ * boundary. Only relative imports of the project's own modules are followed.
+ */
+
+import ts from "typescript";
+import * as fs from "fs";
+import * as path from "path";
+import * as vm from "vm";
+
+// Time limit of one module or expression, in milliseconds
+const EVALUATION_TIMEOUT = 100;
+
+const RESOLVE_EXTENSIONS = [".ts", ".tsx", ".js", ".jsx", ".mjs", ".cjs"];
+
+// Globals an expression may use besides the module's imports
+const ALLOWED_GLOBALS = new Set(["Math", "JSON", "Number", "String", "parseInt", "parseFloat", "undefined"]);
+
+interface EvaluatedModule {
+  // null when the module threw, timed out or imports something we cannot load
+  exports: Record<string, unknown> | null;
+  // Modification time of every file the evaluation read
+  files: Map<string, number>;
+}
+
+// A binding created by an import declaration: the module and the export it reads
+interface ImportBinding {
+  specifier: string;
+  // "default", "*" for a namespace import, or the exported name
+  exported: string;
+}
+
+const moduleCache = new Map<string, EvaluatedModule>();
+
+/**
+ * A VM context without the builtins whose results change between calls, so a
+ * value read at build time is the one the runtime would compute. Code using
+ * them throws and is left to the runtime.
+ */
+function createPureContext(globals: Record<string, unknown>): vm.Context {
+  const context = vm.createContext(globals);
+  vm.runInContext("delete globalThis.Date; delete Math.random;", context);
+  return context;
+}
+
+const modifiedAt = (file: string): number | null => {
+  try {
+    return fs.statSync(file).mtimeMs;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Resolve a relative import to a file, trying the extensions and index files
+ * TypeScript and Vite would. Package imports are not followed.
+ */
+export function resolveImport(specifier: string, fromFile: string): string | null {
+  if (!specifier.startsWith(".") && !path.isAbsolute(specifier)) return null;
+
+  const base = path.resolve(path.dirname(path.resolve(fromFile)), specifier);
+  // `./tokens.js` may name `tokens.ts` in TypeScript projects
+  const withoutExtension = base.replace(/\.[cm]?jsx?$/, "");
+  const candidates = [
+    base,
+    ...RESOLVE_EXTENSIONS.map((extension) => withoutExtension + extension),
+    ...RESOLVE_EXTENSIONS.map((extension) => path.join(base, `index${extension}`)),
+  ];
+
+  return candidates.find((candidate) => fs.statSync(candidate, { throwIfNoEntry: false })?.isFile()) ?? null;
+}
+
+const isFresh = (module: EvaluatedModule): boolean =>
+  Array.from(module.files).every(([file, mtime]) => modifiedAt(file) === mtime);
+
+/**
+ * Evaluate a module and return its exports. Returns null when the module cannot
+ * be evaluated at build time.
+ */
+export function evaluateModule(file: string): Record<string, unknown> | null {
+  const cached = moduleCache.get(file);
+  if (cached && isFresh(cached)) return cached.exports;
+
+  const files = new Map<string, number>();
+  const loading = new Map<string, { exports: Record<string, unknown> }>();
+
+  const load = (moduleFile: string): Record<string, unknown> => {
+    // A cycle sees the partial exports, as in CommonJS
+    const inProgress = loading.get(moduleFile);
+    if (inProgress) return inProgress.exports;
+
+    const mtime = modifiedAt(moduleFile);
+    if (mtime === null) throw new Error(`Cannot read ${moduleFile}`);
+    files.set(moduleFile, mtime);
+
+    const code = fs.readFileSync(moduleFile, "utf8");
+    const { outputText } = ts.transpileModule(code, {
+      fileName: moduleFile,
+      compilerOptions: {
+        module: ts.ModuleKind.CommonJS,
+        target: ts.ScriptTarget.ES2020,
+        jsx: ts.JsxEmit.React,
+        esModuleInterop: true,
+      },
+    });
+
+    const module = { exports: {} as Record<string, unknown> };
+    loading.set(moduleFile, module);
+
+    const require = (specifier: string) => {
+      const resolved = resolveImport(specifier, moduleFile);
+      if (!resolved) throw new Error(`Cannot import "${specifier}" at build time`);
+      return load(resolved);
+    };
+
+    vm.runInContext(outputText, createPureContext({ module, exports: module.exports, require }), {
+      filename: moduleFile,
+      timeout: EVALUATION_TIMEOUT,
+    });
+    return module.exports;
+  };
+
+  let exports: Record<string, unknown> | null = null;
+  try {
+    exports = load(file);
+  } catch {
+    exports = null;
+  }
+
+  moduleCache.set(file, { exports, files });
+  return exports;
+}
+
+// The import bindings of a module by local name, skipping type-only imports
+function importBindings(sourceFile: ts.SourceFile): Map<string, ImportBinding> {
+  const bindings = new Map<string, ImportBinding>();
+
+  for (const statement of sourceFile.statements) {
+    if (!ts.isImportDeclaration(statement) || !ts.isStringLiteral(statement.moduleSpecifier)) continue;
+    const clause = statement.importClause;
+    if (!clause || clause.isTypeOnly) continue;
+
+    const specifier = statement.moduleSpecifier.text;
+    if (clause.name) bindings.set(clause.name.text, { specifier, exported: "default" });
+
+    const named = clause.namedBindings;
+    if (named && ts.isNamespaceImport(named)) {
+      bindings.set(named.name.text, { specifier, exported: "*" });
+    } else if (named) {
+      for (const element of named.elements) {
+        if (element.isTypeOnly) continue;
+        bindings.set(element.name.text, { specifier, exported: (element.propertyName ?? element.name).text });
+      }
+    }
+  }
+
+  return bindings;
+}
+
+/**
+ * Identifiers an expression reads from its enclosing scope. Property names and the
+ * parameters of functions inside the expression are not free.
+ */
+function freeIdentifiers(expression: ts.Expression): Set<string> {
+  const declared = new Set<string>();
+  const used = new Set<string>();
+
+  const visit = (node: ts.Node) => {
+    // Types are erased before evaluation
+    if (ts.isTypeNode(node)) return;
+
+    if (ts.isParameter(node) || ts.isBindingElement(node) || ts.isVariableDeclaration(node)) {
+      collectBindingNames(node.name, declared);
+    }
+
+    if (ts.isIdentifier(node)) {
+      const parent = node.parent;
+      const isPropertyName =
+        (ts.isPropertyAccessExpression(parent) && parent.name === node) ||
+        (ts.isPropertyAssignment(parent) && parent.name === node) ||
+        (ts.isBindingElement(parent) && parent.propertyName === node);
+      if (!isPropertyName) used.add(node.text);
+    }
+
+    ts.forEachChild(node, visit);
+  };
+  visit(expression);
+
+  return new Set(Array.from(used).filter((name) => !declared.has(name)));
+}
+
+function collectBindingNames(name: ts.BindingName, names: Set<string>) {
+  if (ts.isIdentifier(name)) {
+    names.add(name.text);
+    return;
+  }
+  for (const element of name.elements) {
+    if (!ts.isOmittedExpression(element)) collectBindingNames(element.name, names);
+  }
+}
+
+/**
+ * Evaluate an expression that reads imported values (`colors.primary`,
+ * `spacing(2)`, `sizes`) and at most a few pure globals. Returns null when it
+ * reads no import or anything else, an import cannot be evaluated, or the
+ * expression throws. Every file the imported modules read is added to `files`,
+ * whether or not the expression could be evaluated.
+ */
+export function evaluateImportedExpression(
+  expression: ts.Expression,
+  sourceFile: ts.SourceFile,
+  files?: Set<string>
+): { value: unknown } | null {
+  const identifiers = freeIdentifiers(expression);
+  if (identifiers.size === 0) return null;
+
+  const bindings = importBindings(sourceFile);
+  const scope: Record<string, unknown> = {};
+
+  for (const name of identifiers) {
+    if (ALLOWED_GLOBALS.has(name)) continue;
+
+    const binding = bindings.get(name);
+    const file = binding && resolveImport(binding.specifier, sourceFile.fileName);
+    const exports = file && evaluateModule(file);
+    if (file) moduleCache.get(file)?.files.forEach((_mtime, read) => files?.add(read));
+    if (!binding || !exports) return null;
+
+    if (binding.exported === "*") {
+      scope[name] = exports;
+    } else if (binding.exported === "default" && !exports.__esModule) {
+      // A CommonJS module is its own default export
+      scope[name] = exports.default ?? exports;
+    } else if (binding.exported in exports) {
+      scope[name] = exports[binding.exported];
+    } else {
+      return null;
+    }
+  }
+
+  // Expressions of globals alone, such as `Math.random()`, are not build-time values
+  if (Object.keys(scope).length === 0) return null;
+
+  // Strip types (`as const`, generics) before running the expression
+  const { outputText } = ts.transpileModule(`(${expression.getText(sourceFile)});`, {
+    compilerOptions: { target: ts.ScriptTarget.ES2020 },
+  });
+
+  try {
+    return { value: vm.runInContext(outputText, createPureContext(scope), { timeout: EVALUATION_TIMEOUT }) };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Forget every evaluated module
+ */
+export function clearEvaluationCache(): void {
+  moduleCache.clear();
+}
@@ -4,7 +4,13 @@
  * Generates static CSS classes for prop combinations
  */
 
-import type { ComponentMetadata, ExtractedStyle, PropPattern } from "../types";
+import type { ComponentMetadata, ExtractedStyle, InterpolationMetadata, PropPattern } from "../types";
+import { compileCss, wrapInLayer } from "../../src/css-compiler";
+import { generateClassName, hashString } from "../../src/class-names";
+
+// Compile a class's CSS the way the runtime does, so nesting, at-rules and layers match
+const toStaticRule = (className: string, css: string, layer?: string): string =>
+  compileCss(`.${className}`, wrapInLayer(css, layer));
 
 /**
  * Generate static CSS for all prop combinations
@@ -18,6 +24,18 @@ export function generateStaticCSS(component: ComponentMetadata, maxCombinations:
     return [];
   }
 
+  // Theme tokens and arbitrary expressions are only known at runtime
+  const runtimeInterpolation = component.interpolations?.find(
+    (interpolation) => interpolation.kind === "theme" || interpolation.kind === "dynamic"
+  );
+  if (runtimeInterpolation) {
+    console.log(
+      `[Lightning CSS] Skipping ${componentName}: ${runtimeInterpolation.source} at line ` +
+        `${runtimeInterpolation.location.line} needs runtime styles`
+    );
+    return [];
+  }
+
   // Validate the styles are actually CSS
   if (!isValidCSSContent(styles)) {
     console.warn(`[Lightning CSS] Skipping ${componentName}: Invalid CSS content detected`);
@@ -41,17 +59,18 @@ export function generateStaticCSS(component: ComponentMetadata, maxCombinations:
     console.log(`[Lightning CSS] Generating static CSS for ${componentName}`);
 
     // Generate a single static style for components with no dynamic props
-    const className = generateClassName(componentName, {});
-    const css = styles; // Use the styles as-is since there are no interpolations
+    const className = generateClassName(componentName, {}, component.namespace);
+    // Static interpolations are folded in; others are left as-is
+    const css = component.interpolations ? substituteInterpolations(styles, component.interpolations, {}) : styles;
 
     if (isValidCSSContent(css)) {
       return [
         {
           className,
-          css: `.${className} { ${css} }`,
+          css: toStaticRule(className, css, component.layer),
           propCombination: {},
           componentName: componentName,
-          hash: generateHash(css),
+          hash: hashString(css),
         },
       ];
     } else {
@@ -66,17 +85,17 @@ export function generateStaticCSS(component: ComponentMetadata, maxCombinations:
 
   try {
     for (const combination of combinations) {
-      const className = generateClassName(componentName, combination);
-      const css = interpolateStyles(styles, combination);
+      const className = generateClassName(componentName, combination, component.namespace);
+      const css = interpolateStyles(component, combination);
 
       // Validate interpolated CSS
       if (isValidCSSContent(css)) {
         extractedStyles.push({
           className,
-          css: `.${className} { ${css} }`,
+          css: toStaticRule(className, css, component.layer),
           propCombination: combination,
           componentName: componentName,
-          hash: generateHash(css),
+          hash: hashString(css),
         });
       } else {
         console.warn(`[Lightning CSS] Invalid CSS generated for ${componentName} with props:`, combination);
@@ -90,6 +109,43 @@ export function generateStaticCSS(component: ComponentMetadata, maxCombinations:
   return extractedStyles;
 }
 
+/**
+ * Generate one static class per variant value and compound variant
+ *
+ * Unlike prop patterns, variants are declared, so every class is known up front and
+ * no combinations are enumerated. Each style carries the exact key the RuntimeResolver
+ * looks it up by. Compound classes come last so they override single variants.
+ */
+export function generateVariantCSS(component: ComponentMetadata): ExtractedStyle[] {
+  const { variants, componentName, componentId = componentName } = component;
+  if (!variants) return [];
+
+  const extractedStyles: ExtractedStyle[] = [];
+  const addStyle = (key: string, propCombination: Record<string, any>, css: string) => {
+    const className = generateClassName(componentId, propCombination, component.namespace);
+    extractedStyles.push({
+      className,
+      css: toStaticRule(className, css, component.layer),
+      propCombination,
+      componentName,
+      hash: hashString(css),
+      resolverKey: `${componentId}::${key}`,
+    });
+  };
+
+  for (const [name, values] of Object.entries(variants.variants)) {
+    for (const [value, css] of Object.entries(values)) {
+      addStyle(`${name}:${value}`, { [name]: value }, css);
+    }
+  }
+
+  variants.compoundVariants.forEach(({ css }, index) => {
+    if (css !== null) addStyle(`compound:${index}`, { compound: index }, css);
+  });
+
+  return extractedStyles;
+}
+
 /**
  * Validate CSS content
  */
@@ -116,19 +172,6 @@ function isValidCSSContent(content: string): boolean {
   return true;
 }
 
-/**
- * Generate a hash for CSS content
- */
-function generateHash(content: string): string {
-  let hash = 0;
-  for (let i = 0; i < content.length; i++) {
-    const char = content.charCodeAt(i);
-    hash = (hash << 5) - hash + char;
-    hash = hash & hash;
-  }
-  return Math.abs(hash).toString(36);
-}
-
 /**
  * Calculate total number of combinations
  */
@@ -170,24 +213,57 @@ function generatePropCombinations(patterns: PropPattern[]): Record<string, any>[
 }
 
 /**
- * Generate a unique class name for a prop combination
+ * Interpolate styles with prop values. Components parsed from source carry their
+ * classified interpolations; hand-written metadata falls back to reading the
+ * expressions in the styles.
+ */
+function interpolateStyles(component: ComponentMetadata, props: Record<string, any>): string {
+  if (component.interpolations) {
+    return substituteInterpolations(component.styles, component.interpolations, props);
+  }
+  return interpolateExpressions(component.styles, props);
+}
+
+/**
+ * Replace each classified interpolation, in source order, with its value for the props
+ */
+function substituteInterpolations(
+  styles: string,
+  interpolations: InterpolationMetadata[],
+  props: Record<string, any>
+): string {
+  let result = "";
+  let cursor = 0;
+
+  for (const interpolation of interpolations) {
+    // Component references may already have been replaced by their selector
+    const index = styles.indexOf(interpolation.source, cursor);
+    if (index === -1) continue;
+
+    result += styles.slice(cursor, index) + evaluateInterpolation(interpolation, props);
+    cursor = index + interpolation.source.length;
+  }
+
+  return result + styles.slice(cursor);
+}
+
+/**
+ * Value of a static or prop interpolation for a prop combination
  */
-function generateClassName(componentName: string, combination: Record<string, any>): string {
-  // Create a deterministic hash from the combination
-  const hash = Object.entries(combination)
-    .sort(([a], [b]) => a.localeCompare(b))
-    .map(([key, value]) => `${key}-${value}`)
-    .join("_");
-
-  // Generate class name
-  const baseName = componentName.toLowerCase();
-  return hash ? `${baseName}_${hash}` : baseName;
+function evaluateInterpolation(interpolation: InterpolationMetadata, props: Record<string, any>): string {
+  if (interpolation.kind === "static") return interpolation.value ?? "";
+
+  const value = props[interpolation.propName!];
+  const matched = interpolation.cases?.[String(value)];
+  if (matched !== undefined) return matched;
+  if (interpolation.passthrough && value !== undefined && value !== null && value !== "") return String(value);
+  return interpolation.fallback ?? "";
 }
 
 /**
- * Interpolate styles with prop values
+ * Interpolate expressions written in the styles with prop values
  */
-function interpolateStyles(styles: string, props: Record<string, any>): string {
+function interpolateExpressions(styles: string, props: Record<string, any>): string {
   // Replace template literal interpolations
   return styles.replace(/\$\{([^}]+)\}/g, (match, expression) => {
     try {
@@ -215,7 +291,7 @@ function evaluateExpression(expression: string, props: Record<string, any>): any
   }
 
   // Handle ternary operators with boolean props (no quotes around prop value)
-  const ternaryBooleanPropMatch = expression.match(/props\.(\w+)\s*\?\s*['"]([^'"]+)['"]\s*:\s*['"]([^'"]+)['"]/);
+  const ternaryBooleanPropMatch = expression.match(/props\.([\w$]+)\s*\?\s*['"]([^'"]+)['"]\s*:\s*['"]([^'"]+)['"]/);
 
   if (ternaryBooleanPropMatch) {
     const propName = ternaryBooleanPropMatch[1];
@@ -227,7 +303,7 @@ function evaluateExpression(expression: string, props: Record<string, any>): any
 
   // Handle ternary operators with quoted strings
   const ternaryQuotedMatch = expression.match(
-    /props\.(\w+)\s*===?\s*['"]([^'"]+)['"]\s*\?\s*['"]([^'"]+)['"]\s*:\s*['"]([^'"]+)['"]/
+    /props\.([\w$]+)\s*===?\s*['"]([^'"]+)['"]\s*\?\s*['"]([^'"]+)['"]\s*:\s*['"]([^'"]+)['"]/
   );
 
   if (ternaryQuotedMatch) {
@@ -239,7 +315,7 @@ function evaluateExpression(expression: string, props: Record<string, any>): any
   }
 
   // Handle ternary operators with unquoted values (like numbers)
-  const ternaryUnquotedMatch = expression.match(/props\.(\w+)\s*\?\s*([^:]+?)\s*:\s*(.+)/);
+  const ternaryUnquotedMatch = expression.match(/props\.([\w$]+)\s*\?\s*([^:]+?)\s*:\s*(.+)/);
 
   if (ternaryUnquotedMatch) {
     const propName = ternaryUnquotedMatch[1];
@@ -258,7 +334,7 @@ function evaluateExpression(expression: string, props: Record<string, any>): any
   }
 
   // Handle default values
-  const defaultMatch = expression.match(/props\.(\w+)\s*\|\|\s*['"]([^'"]+)['"]/);
+  const defaultMatch = expression.match(/props\.([\w$]+)\s*\|\|\s*['"]([^'"]+)['"]/);
 
   if (defaultMatch) {
     const propName = defaultMatch[1];
@@ -267,7 +343,7 @@ function evaluateExpression(expression: string, props: Record<string, any>): any
   }
 
   // Handle simple prop access
-  const propMatch = expression.match(/props\.(\w+)/);
+  const propMatch = expression.match(/props\.([\w$]+)/);
   if (propMatch) {
     return props[propMatch[1]];
   }
@@ -1,57 +1,113 @@
 /**
  * Lightning CSS Parser Module
  *
- * Parses styled components and extracts prop patterns for build-time optimization
+ * Parses styled components and extracts prop patterns for build-time optimization.
+ * Components are found in the TypeScript AST shared with the styled transform, and
+ * each interpolation of their styles is classified from its syntax tree.
  */
 
-import type { ComponentMetadata, PropPattern } from "../types";
+import ts from "typescript";
+import type { ComponentMetadata, InterpolationMetadata, PropPattern, SourceLocation, VariantsMetadata } from "../types";
+import { objectToCss, type CSSObject } from "../../src/object-styles";
+import { componentClassName, hashString } from "../../src/class-names";
+import {
+  chainConfigValue,
+  componentIdFor,
+  isAnimatedArgument,
+  locationOf,
+  parseModule,
+  type StyledDeclaration,
+} from "./ast";
+import { evaluateImportedExpression } from "./evaluator";
 
 /**
- * Regular expressions for parsing styled components
+ * Options of `parseStyledComponent`
  */
-const STYLED_COMPONENT_REGEX = /styled\s*\.\s*(\w+)\s*`|styled\s*\(\s*['"](\w+)['"]\s*\)\s*`|styled\s*\(\s*(\w+)\s*\)/g;
-const TEMPLATE_LITERAL_REGEX = /`([^`]*)`/;
-const PROP_FUNCTION_REGEX = /\$\{[^}]+\}/g;
-const ANIMATED_COMPONENT_REGEX = /animated\s*\.\s*(\w+)|animated\s*\(/;
+export interface ParseOptions {
+  /**
+   * Namespace of the generated class names, as passed to `setup()`
+   */
+  namespace?: string;
+  /**
+   * Evaluate constants and helpers imported from relative modules (default true)
+   */
+  evaluateImports?: boolean;
+}
+
+// How the props of a style function are reached: `(props) =>`, `(p: Props) =>` or `({ size, theme: t }) =>`
+interface PropsParameter {
+  name?: string;
+  // Destructured locals and the prop each one reads
+  bindings: Map<string, string>;
+}
+
+// What the parser knows about the module while it reads one component
+interface ParseContext {
+  code: string;
+  sourceFile: ts.SourceFile;
+  // Selectors of the components of the module, for `${Icon}` references
+  selectors: Map<string, string>;
+  // Whether values imported from other modules may be evaluated
+  evaluateImports: boolean;
+  // Files read while evaluating imported values
+  dependencies: Set<string>;
+}
 
 /**
  * Parse a styled component file and extract metadata
  */
-export function parseStyledComponent(code: string, filename: string): ComponentMetadata[] {
+export function parseStyledComponent(code: string, filename: string, options: ParseOptions = {}): ComponentMetadata[] {
   const components: ComponentMetadata[] = [];
 
   try {
-    // Find all styled component declarations with better parsing
-    let match;
-    const styledRegex = /(?:const|let|var)\s+(\w+)\s*=\s*styled\s*(?:\.\s*(\w+)|(?:\(\s*['"]?(\w+)['"]?\s*\)))\s*/g;
-
-    while ((match = styledRegex.exec(code)) !== null) {
-      const componentName = match[1];
-      const tagName = match[2] || match[3];
-      const startIndex = match.index + match[0].length;
-
-      // Look for template literal, handling newlines and whitespace
-      let templateStart = startIndex;
-
-      // Skip whitespace and newlines
-      while (templateStart < code.length && /\s/.test(code[templateStart])) {
-        templateStart++;
-      }
+    const { sourceFile, styled } = parseModule(code, filename);
+    const declarations = styled.filter(
+      (declaration): declaration is StyledDeclaration & { componentName: string } => !!declaration.componentName
+    );
+
+    // An explicit id wins, since the runtime uses it for the component's selector
+    const componentIds = new Map(
+      declarations.map((declaration) => [
+        declaration.componentName,
+        chainConfigValue(declaration.chain, "componentId") ?? componentIdFor(declaration.componentName, filename),
+      ])
+    );
+    const context: ParseContext = {
+      code,
+      sourceFile,
+      selectors: new Map(
+        Array.from(componentIds, ([name, id]) => [name, `.${componentClassName(id, options.namespace)}`])
+      ),
+      evaluateImports: options.evaluateImports ?? true,
+      dependencies: new Set(),
+    };
 
-      // Check if we have a template literal
-      if (code[templateStart] !== "`") {
-        console.warn(`[Lightning CSS] No template literal found for ${componentName} in ${filename}`);
-        continue;
+    for (const declaration of declarations) {
+      const { componentName, tag: tagName, chain } = declaration;
+      const layer = chainConfigValue(chain, "layer");
+
+      let variants: VariantsMetadata | undefined;
+      const variantsCall = chain.find((call) => call.name === "variants");
+      if (variantsCall) {
+        variants = (variantsCall.arguments[0] && parseVariantsConfig(variantsCall.arguments[0])) ?? undefined;
+        if (!variants) {
+          console.warn(
+            `[Lightning CSS] Variants of ${componentName} in ${filename} are not static, using runtime styles`
+          );
+        }
       }
 
-      // Extract template literal content
-      const templateMatch = extractTemplateContent(code, templateStart);
-      if (!templateMatch) {
-        console.warn(`[Lightning CSS] Failed to extract template literal for ${componentName} in ${filename}`);
+      // Template literal content, or the equivalent template for object styles
+      const isObjectStyles = !ts.isTemplateLiteral(declaration.styles);
+      const extracted = isObjectStyles
+        ? extractObjectStyles(declaration.styles, context)
+        : extractTemplateStyles(declaration.styles as ts.TemplateLiteral, context);
+      if (!extracted) {
+        console.warn(`[Lightning CSS] Failed to extract object styles for ${componentName} in ${filename}`);
         continue;
       }
 
-      const styles = templateMatch.content;
+      const { styles, interpolations } = extracted;
 
       // Validate that we extracted actual CSS
       if (!isValidCSS(styles)) {
@@ -60,11 +116,10 @@ export function parseStyledComponent(code: string, filename: string): ComponentM
       }
 
       // Check if this is an animated component
-      const afterComponent = code.slice(templateMatch.endIndex, Math.min(code.length, templateMatch.endIndex + 200));
-      const isAnimated = ANIMATED_COMPONENT_REGEX.test(afterComponent);
+      const isAnimated = isAnimatedArgument(declaration.node);
 
-      // Extract prop patterns from the styles
-      const propPatterns = extractPropPatterns(styles, code);
+      // Extract prop patterns from the classified interpolations
+      const propPatterns = extractPropPatterns(interpolations, code);
 
       // Detect if component has spring animations
       const hasAnimations = detectAnimations(styles, isAnimated);
@@ -80,58 +135,556 @@ export function parseStyledComponent(code: string, filename: string): ComponentM
         name: componentName,
         tag: tagName,
         css: styles,
-        hash: generateHash(styles),
+        hash: hashString(styles),
         props: propPatterns,
+        componentId: componentIds.get(componentName),
+        location: locationOf(declaration.node, sourceFile),
+        interpolations,
+        ...(layer && { layer }),
+        ...(options.namespace && { namespace: options.namespace }),
+        ...(variants && { variants }),
       });
     }
+
+    // Imported values are evaluated once per module, so its components share the files they came from
+    if (context.dependencies.size > 0) {
+      for (const component of components) component.dependencies = Array.from(context.dependencies);
+    }
   } catch (error) {
     console.error(`[Lightning CSS] Error parsing ${filename}:`, error);
   }
 
+  return resolveComponentSelectors(components);
+}
+
+/**
+ * Replace `${Icon}` references to other components of the file with their
+ * `.sc-<componentId>` selector, the same text the runtime interpolates
+ */
+function resolveComponentSelectors(components: ComponentMetadata[]): ComponentMetadata[] {
+  const selectors = new Map(
+    components.map((component) => [
+      component.componentName,
+      `.${componentClassName(component.componentId!, component.namespace)}`,
+    ])
+  );
+
+  for (const component of components) {
+    const styles = component.styles.replace(
+      /\$\{\s*(\w+)\s*\}/g,
+      (reference, name) => selectors.get(name) ?? reference
+    );
+    if (styles === component.styles) continue;
+
+    component.styles = component.css = styles;
+    component.hash = hashString(styles);
+  }
+
   return components;
 }
 
 /**
- * Extract template literal content more robustly
+ * Template text between the backticks, with each interpolation classified
  */
-function extractTemplateContent(code: string, startIndex: number): { content: string; endIndex: number } | null {
-  let i = startIndex;
-  let depth = 0;
-  let inTemplate = false;
-  let content = "";
-
-  while (i < code.length) {
-    const char = code[i];
-
-    if (char === "`" && !inTemplate) {
-      inTemplate = true;
-      i++;
-      continue;
-    }
+function extractTemplateStyles(
+  template: ts.TemplateLiteral,
+  context: ParseContext
+): { styles: string; interpolations: InterpolationMetadata[] } {
+  const { code, sourceFile } = context;
+  const styles = code.slice(template.getStart(sourceFile) + 1, template.end - 1);
+  if (ts.isNoSubstitutionTemplateLiteral(template)) return { styles, interpolations: [] };
+
+  // Each `${...}` runs from the `${` ending the previous chunk to the `}` starting the next
+  let previousEnd = template.head.end;
+  const interpolations = template.templateSpans.map((span) => {
+    const source = code.slice(previousEnd - 2, span.literal.getStart(sourceFile) + 1);
+    previousEnd = span.literal.end;
+    return classifyInterpolation(span.expression, source, null, context);
+  });
+
+  return { styles, interpolations };
+}
 
-    if (char === "`" && inTemplate && depth === 0) {
-      // End of template literal
-      return { content, endIndex: i };
-    }
+// Parentheses, type assertions and `!` do not change a value
+function unwrap(expression: ts.Expression): ts.Expression {
+  let current = expression;
+  while (
+    ts.isParenthesizedExpression(current) ||
+    ts.isAsExpression(current) ||
+    ts.isNonNullExpression(current) ||
+    ts.isSatisfiesExpression(current)
+  ) {
+    current = current.expression;
+  }
+  return current;
+}
+
+// Initializer of a top-level `const` of the module
+function constInitializer(name: string, sourceFile: ts.SourceFile): ts.Expression | undefined {
+  for (const statement of sourceFile.statements) {
+    if (!ts.isVariableStatement(statement) || !(statement.declarationList.flags & ts.NodeFlags.Const)) continue;
 
-    if (inTemplate) {
-      if (char === "$" && code[i + 1] === "{") {
-        depth++;
-        content += char;
-      } else if (char === "}" && depth > 0) {
-        depth--;
-        content += char;
-      } else {
-        content += char;
+    for (const declaration of statement.declarationList.declarations) {
+      if (ts.isIdentifier(declaration.name) && declaration.name.text === name && declaration.initializer) {
+        return declaration.initializer;
       }
     }
+  }
+  return undefined;
+}
+
+// Text a value evaluated at build time puts in the CSS: strings and finite numbers
+const toStaticText = (value: unknown): string | undefined =>
+  typeof value === "string" ? value : typeof value === "number" && Number.isFinite(value) ? String(value) : undefined;
+
+/**
+ * Text of a value known at build time: a string or number literal, a top-level
+ * `const` holding one, or an expression over imported constants and helpers
+ * (`colors.primary`, `spacing(2)`)
+ */
+function staticValue(expression: ts.Expression, context: ParseContext, depth: number = 0): string | undefined {
+  const node = unwrap(expression);
+
+  if (ts.isStringLiteralLike(node)) return node.text;
+  if (ts.isNumericLiteral(node)) return String(Number(node.text));
+  if (
+    ts.isPrefixUnaryExpression(node) &&
+    node.operator === ts.SyntaxKind.MinusToken &&
+    ts.isNumericLiteral(node.operand)
+  ) {
+    return String(-Number(node.operand.text));
+  }
+  if (ts.isIdentifier(node) && depth < 8) {
+    const initializer = constInitializer(node.text, context.sourceFile);
+    if (initializer) return staticValue(initializer, context, depth + 1);
+  }
+  if (context.evaluateImports && !ts.isArrowFunction(node) && !ts.isFunctionExpression(node)) {
+    const evaluated = evaluateImportedExpression(node, context.sourceFile, context.dependencies);
+    return evaluated ? toStaticText(evaluated.value) : undefined;
+  }
+  return undefined;
+}
+
+// The text of each key of an object whose values are all static, or null
+function staticLookupMap(expression: ts.Expression, context: ParseContext): Record<string, string> | null {
+  let node = unwrap(expression);
+  if (ts.isIdentifier(node)) {
+    const initializer = constInitializer(node.text, context.sourceFile);
+    if (initializer) node = unwrap(initializer);
+  }
+
+  if (!ts.isObjectLiteralExpression(node)) {
+    // An imported map: `sizes[props.size]` with `import { sizes } from "./tokens"`
+    const evaluated = context.evaluateImports
+      ? evaluateImportedExpression(node, context.sourceFile, context.dependencies)
+      : null;
+    const value = evaluated?.value;
+    if (typeof value !== "object" || value === null || Array.isArray(value)) return null;
 
-    i++;
+    const entries = Object.entries(value).map(([key, entry]) => [key, toStaticText(entry)]);
+    return entries.every(([, text]) => text !== undefined) ? Object.fromEntries(entries) : null;
   }
 
+  const map: Record<string, string> = {};
+  for (const property of node.properties) {
+    const key = ts.isPropertyAssignment(property) ? propertyKey(property.name) : null;
+    const value = key !== null ? staticValue((property as ts.PropertyAssignment).initializer, context) : undefined;
+    if (key === null || value === undefined) return null;
+    map[key] = value;
+  }
+  return map;
+}
+
+// Name of a property that is written out (`size`, `"size"`, `1`), not computed
+function propertyKey(name: ts.PropertyName): string | null {
+  if (ts.isIdentifier(name) || ts.isStringLiteral(name) || ts.isNumericLiteral(name)) return name.text;
   return null;
 }
 
+// How a style function's first parameter reaches the props
+function propsParameter(parameter: ts.ParameterDeclaration | undefined): PropsParameter | null {
+  if (!parameter) return null;
+  if (ts.isIdentifier(parameter.name)) return { name: parameter.name.text, bindings: new Map() };
+  if (!ts.isObjectBindingPattern(parameter.name)) return null;
+
+  const bindings = new Map<string, string>();
+  for (const element of parameter.name.elements) {
+    if (!ts.isIdentifier(element.name) || element.dotDotDotToken) continue;
+    const propName = element.propertyName ? propertyKey(element.propertyName) : element.name.text;
+    if (propName !== null) bindings.set(element.name.text, propName);
+  }
+  return { bindings };
+}
+
+/**
+ * Path of the props an expression reads: `props.theme.colors.primary` or, with
+ * `({ theme })`, `theme.colors.primary` both give `["theme", "colors", "primary"]`
+ */
+function propsPath(expression: ts.Expression, parameter: PropsParameter): string[] | null {
+  const path: string[] = [];
+  let node = unwrap(expression);
+
+  while (ts.isPropertyAccessExpression(node) || ts.isElementAccessExpression(node)) {
+    if (ts.isPropertyAccessExpression(node)) {
+      path.unshift(node.name.text);
+    } else if (ts.isStringLiteralLike(node.argumentExpression)) {
+      path.unshift(node.argumentExpression.text);
+    } else {
+      return null;
+    }
+    node = unwrap(node.expression);
+  }
+
+  if (!ts.isIdentifier(node)) return null;
+  if (node.text === parameter.name) return path.length > 0 ? path : null;
+
+  const binding = parameter.bindings.get(node.text);
+  return binding ? [binding, ...path] : null;
+}
+
+// A single prop read (`props.size`), not the theme or a nested path
+const propNameOf = (expression: ts.Expression, parameter: PropsParameter): string | null => {
+  const path = propsPath(expression, parameter);
+  return path && path.length === 1 && path[0] !== "theme" ? path[0] : null;
+};
+
+/**
+ * Cases of a conditional on one prop: `props.size === "sm" ? "4px" : "8px"`,
+ * `props.active ? ... : ...`, `!props.active ? ... : ...`, and chains of them on
+ * the same prop. Null unless every branch is static.
+ */
+function conditionalCases(
+  expression: ts.ConditionalExpression,
+  parameter: PropsParameter,
+  context: ParseContext
+): {
+  propName: string;
+  values: Array<string | number | boolean>;
+  cases: Record<string, string>;
+  fallback: string;
+} | null {
+  const condition = unwrap(expression.condition);
+  let propName: string | null = null;
+  let testValue: string | undefined;
+  let negated = false;
+
+  if (ts.isBinaryExpression(condition)) {
+    const operator = condition.operatorToken.kind;
+    const equality = operator === ts.SyntaxKind.EqualsEqualsEqualsToken || operator === ts.SyntaxKind.EqualsEqualsToken;
+    const inequality =
+      operator === ts.SyntaxKind.ExclamationEqualsEqualsToken || operator === ts.SyntaxKind.ExclamationEqualsToken;
+    if (!equality && !inequality) return null;
+
+    propName = propNameOf(condition.left, parameter);
+    testValue = staticValue(condition.right, context);
+    if (propName === null) {
+      propName = propNameOf(condition.right, parameter);
+      testValue = staticValue(condition.left, context);
+    }
+    negated = inequality;
+  } else if (ts.isPrefixUnaryExpression(condition) && condition.operator === ts.SyntaxKind.ExclamationToken) {
+    propName = propNameOf(condition.operand, parameter);
+    testValue = "true";
+    negated = true;
+  } else {
+    propName = propNameOf(condition, parameter);
+    testValue = "true";
+  }
+
+  if (propName === null || testValue === undefined) return null;
+
+  const whenTrue = staticValue(expression.whenTrue, context);
+  if (whenTrue === undefined) return null;
+
+  // `a ? x : b ? y : z` on the same prop adds the inner cases
+  const whenFalseNode = unwrap(expression.whenFalse);
+  const inner = ts.isConditionalExpression(whenFalseNode) ? conditionalCases(whenFalseNode, parameter, context) : null;
+  const whenFalse = inner && inner.propName === propName ? undefined : staticValue(expression.whenFalse, context);
+  if (whenFalse === undefined && !(inner && inner.propName === propName)) return null;
+
+  const isBoolean = testValue === "true" && !ts.isBinaryExpression(condition);
+  const values: Array<string | number | boolean> = isBoolean ? [true, false] : [testValue];
+
+  if (inner && inner.propName === propName) {
+    if (negated) return null;
+    return {
+      propName,
+      values: [...values, ...inner.values.filter((value) => !values.includes(value))],
+      cases: { ...inner.cases, [testValue]: whenTrue },
+      fallback: inner.fallback,
+    };
+  }
+
+  return negated
+    ? { propName, values, cases: { [testValue]: whenFalse! }, fallback: whenTrue }
+    : { propName, values, cases: { [testValue]: whenTrue }, fallback: whenFalse! };
+}
+
+/**
+ * Classify an interpolation: a constant, a prop pattern (a conditional, a lookup
+ * map or a default), a theme token, or something only known at runtime
+ */
+function classifyInterpolation(
+  expression: ts.Expression,
+  source: string,
+  parameter: PropsParameter | null,
+  context: ParseContext
+): InterpolationMetadata {
+  const { sourceFile } = context;
+  const location: SourceLocation = locationOf(expression, sourceFile);
+  const dynamic: InterpolationMetadata = { kind: "dynamic", source, location };
+  let node = unwrap(expression);
+
+  // A style function: classify what it returns in terms of its props parameter
+  if (ts.isArrowFunction(node) || ts.isFunctionExpression(node)) {
+    const functionParameter = propsParameter(node.parameters[0]);
+    const body = ts.isBlock(node.body)
+      ? node.body.statements.length === 1 && ts.isReturnStatement(node.body.statements[0])
+        ? node.body.statements[0].expression
+        : undefined
+      : node.body;
+    if (!functionParameter || !body) return dynamic;
+
+    parameter = functionParameter;
+    node = unwrap(body);
+  }
+
+  // `${Icon}` stands for the selector of another component
+  if (ts.isIdentifier(node) && context.selectors.has(node.text)) {
+    return { kind: "static", source, location, value: context.selectors.get(node.text) };
+  }
+
+  const value = staticValue(node, context);
+  if (value !== undefined) return { kind: "static", source, location, value };
+  if (!parameter) return dynamic;
+
+  const path = propsPath(node, parameter);
+  if (path && path[0] === "theme" && path.length > 1) {
+    return { kind: "theme", source, location, token: path.slice(1).join(".") };
+  }
+
+  if (ts.isConditionalExpression(node)) {
+    const conditional = conditionalCases(node, parameter, context);
+    return conditional ? { kind: "prop", source, location, ...conditional } : dynamic;
+  }
+
+  // Lookup map: `{ sm: "4px", lg: "8px" }[props.size]` or `sizes[props.size]`
+  if (ts.isElementAccessExpression(node)) {
+    const propName = propNameOf(node.argumentExpression, parameter);
+    const cases = propName !== null ? staticLookupMap(node.expression, context) : null;
+    return propName !== null && cases
+      ? { kind: "prop", source, location, propName, values: Object.keys(cases), cases }
+      : dynamic;
+  }
+
+  // Default: `props.size || "md"` or `props.size ?? "md"`
+  if (
+    ts.isBinaryExpression(node) &&
+    (node.operatorToken.kind === ts.SyntaxKind.BarBarToken ||
+      node.operatorToken.kind === ts.SyntaxKind.QuestionQuestionToken)
+  ) {
+    const propName = propNameOf(node.left, parameter);
+    const fallback = staticValue(node.right, context);
+    if (propName !== null && fallback !== undefined) {
+      return { kind: "prop", source, location, propName, values: [], fallback, passthrough: true };
+    }
+  }
+
+  return dynamic;
+}
+
+/**
+ * Read an object literal of styles. Nested objects are followed; string and number
+ * literals are kept as values; any other value becomes an interpolation built by
+ * `toInterpolation`. Returns null for syntax we cannot read statically (spreads,
+ * computed or shorthand keys, methods).
+ */
+function readStyleObject(
+  node: ts.ObjectLiteralExpression,
+  toInterpolation: (expression: ts.Expression) => string
+): CSSObject | null {
+  const value: CSSObject = {};
+
+  for (const property of node.properties) {
+    if (!ts.isPropertyAssignment(property)) return null;
+    const key = propertyKey(property.name);
+    if (key === null) return null;
+
+    const initializer = unwrap(property.initializer);
+    if (ts.isObjectLiteralExpression(initializer)) {
+      const nested = readStyleObject(initializer, toInterpolation);
+      if (!nested) return null;
+      value[key] = nested;
+    } else if (ts.isStringLiteralLike(initializer)) {
+      value[key] = initializer.text;
+    } else if (ts.isNumericLiteral(initializer)) {
+      value[key] = Number(initializer.text);
+    } else if (
+      ts.isPrefixUnaryExpression(initializer) &&
+      initializer.operator === ts.SyntaxKind.MinusToken &&
+      ts.isNumericLiteral(initializer.operand)
+    ) {
+      value[key] = -Number(initializer.operand.text);
+    } else {
+      value[key] = toInterpolation(property.initializer);
+    }
+  }
+
+  return value;
+}
+
+/**
+ * Extract object styles passed to `styled.tag(...)` as the template text the
+ * equivalent template literal would contain, so the same prop analysis applies.
+ * For the function form, reads of the props parameter become `${props => ...}`
+ * interpolations.
+ */
+function extractObjectStyles(
+  expression: ts.Expression,
+  context: ParseContext
+): { styles: string; interpolations: InterpolationMetadata[] } | null {
+  const { sourceFile } = context;
+  const interpolations: InterpolationMetadata[] = [];
+  let node = unwrap(expression);
+  let parameter: PropsParameter | null = null;
+
+  // Function form: (props) => ({ ... }), props => ({ ... }) or (props: Props) => ({ ... })
+  if (ts.isArrowFunction(node) || ts.isFunctionExpression(node)) {
+    parameter = propsParameter(node.parameters[0]);
+    const body = ts.isBlock(node.body) ? node.body.statements.find(ts.isReturnStatement)?.expression : node.body;
+    if (!parameter?.name || !body) return null;
+    node = unwrap(body);
+  }
+
+  if (!ts.isObjectLiteralExpression(node)) return null;
+
+  const parameterName = parameter?.name;
+  const toInterpolation = (value: ts.Expression): string => {
+    const text = parameterName ? renameProps(value, parameterName, sourceFile) : value.getText(sourceFile);
+    const source = parameterName ? `\${props => ${text}}` : `\${${text}}`;
+    interpolations.push(classifyInterpolation(value, source, parameter, context));
+    return source;
+  };
+
+  const styles = readStyleObject(node, toInterpolation);
+  return styles ? { styles: objectToCss(styles), interpolations } : null;
+}
+
+// Source of an expression with reads of the props parameter renamed to `props`
+function renameProps(expression: ts.Expression, parameterName: string, sourceFile: ts.SourceFile): string {
+  const start = expression.getStart(sourceFile);
+  const replacements: number[] = [];
+
+  const visit = (node: ts.Node) => {
+    if (
+      ts.isIdentifier(node) &&
+      node.text === parameterName &&
+      (ts.isPropertyAccessExpression(node.parent) || ts.isElementAccessExpression(node.parent)) &&
+      node.parent.expression === node
+    ) {
+      replacements.push(node.getStart(sourceFile) - start);
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(expression);
+
+  let text = expression.getText(sourceFile);
+  for (const offset of replacements.reverse()) {
+    text = text.slice(0, offset) + "props" + text.slice(offset + parameterName.length);
+  }
+  return text;
+}
+
+/**
+ * Static CSS text of a variant value: a style object, a CSS string, or css`` without
+ * interpolations. Null when it can only be known at runtime.
+ */
+function variantStyleToCss(expression: ts.Expression): string | null {
+  const node = unwrap(expression);
+
+  if (ts.isObjectLiteralExpression(node)) {
+    const styles = readStyleObject(node, (value) => `\${${value.getText()}}`);
+    return styles ? objectToCss(styles) : null;
+  }
+  if (ts.isStringLiteralLike(node)) return node.text;
+
+  const isCssTemplate =
+    ts.isTaggedTemplateExpression(node) &&
+    ts.isIdentifier(node.tag) &&
+    node.tag.text === "css" &&
+    ts.isNoSubstitutionTemplateLiteral(node.template);
+  return isCssTemplate ? (node.template as ts.NoSubstitutionTemplateLiteral).text.trim() : null;
+}
+
+// Variant selections are compared as strings at runtime (`true` → "true")
+const toVariantValue = (expression: ts.Expression): string => {
+  const node = unwrap(expression);
+  return ts.isStringLiteralLike(node) ? node.text : node.getText();
+};
+
+// Properties of an object literal by name, or null if any is not a plain `key: value`
+function objectProperties(node: ts.Expression): Map<string, ts.Expression> | null {
+  const object = unwrap(node);
+  if (!ts.isObjectLiteralExpression(object)) return null;
+
+  const properties = new Map<string, ts.Expression>();
+  for (const property of object.properties) {
+    const key = ts.isPropertyAssignment(property) ? propertyKey(property.name) : null;
+    if (key === null) return null;
+    properties.set(key, (property as ts.PropertyAssignment).initializer);
+  }
+  return properties;
+}
+
+/**
+ * Parse the object passed to `.variants()`. Returns null unless `variants` is a
+ * static object literal; individual values that are not static are left out, so
+ * they fall back to runtime classes.
+ */
+function parseVariantsConfig(node: ts.Expression): VariantsMetadata | null {
+  const config = objectProperties(node);
+  const variantsNode = config?.get("variants");
+  const variantGroups = variantsNode && objectProperties(variantsNode);
+  if (!config || !variantGroups) return null;
+
+  const variants: VariantsMetadata["variants"] = {};
+  for (const [name, valuesNode] of variantGroups) {
+    const values = objectProperties(valuesNode);
+    if (!values) continue;
+
+    variants[name] = {};
+    for (const [value, style] of values) {
+      const css = variantStyleToCss(style);
+      if (css !== null) variants[name][value] = css;
+    }
+  }
+
+  const defaultVariants: Record<string, string> = {};
+  const defaultsNode = config.get("defaultVariants");
+  for (const [name, value] of (defaultsNode && objectProperties(defaultsNode)) ?? []) {
+    defaultVariants[name] = toVariantValue(value);
+  }
+
+  const compoundVariants: VariantsMetadata["compoundVariants"] = [];
+  const compoundNode = config.get("compoundVariants");
+  if (compoundNode && ts.isArrayLiteralExpression(unwrap(compoundNode))) {
+    for (const element of (unwrap(compoundNode) as ts.ArrayLiteralExpression).elements) {
+      const entry = objectProperties(element);
+      if (!entry) return null;
+
+      const { css, ...conditions } = Object.fromEntries(entry);
+      compoundVariants.push({
+        conditions: Object.fromEntries(
+          Object.entries(conditions).map(([name, value]) => [name, toVariantValue(value)])
+        ),
+        css: css ? variantStyleToCss(css) : null,
+      });
+    }
+  }
+
+  return { variants, compoundVariants, defaultVariants };
+}
+
 /**
  * Validate that extracted content is CSS, not JavaScript
  */
@@ -170,119 +723,33 @@ function isValidCSS(content: string): boolean {
 }
 
 /**
- * Generate a simple hash for styles
- */
-function generateHash(content: string): string {
-  let hash = 0;
-  for (let i = 0; i < content.length; i++) {
-    const char = content.charCodeAt(i);
-    hash = (hash << 5) - hash + char;
-    hash = hash & hash; // Convert to 32bit integer
-  }
-  return Math.abs(hash).toString(36);
-}
-
-/**
- * Extract the component name from the code
+ * Prop patterns of a component, one per prop its interpolations depend on. Values
+ * seen in the interpolations are joined with those declared or passed in the module.
  */
-function extractComponentName(code: string, position: number): string {
-  // Look backwards for const/let/var declaration
-  const beforeDeclaration = code.slice(0, position);
-  const declarationMatch = beforeDeclaration.match(/(?:const|let|var)\s+(\w+)\s*=\s*$/);
-
-  return declarationMatch ? declarationMatch[1] : "Anonymous";
-}
+function extractPropPatterns(interpolations: InterpolationMetadata[], fullCode: string): PropPattern[] {
+  const patterns = new Map<string, PropPattern>();
 
-/**
- * Extract prop patterns from template literal interpolations
- */
-function extractPropPatterns(styles: string, fullCode: string): PropPattern[] {
-  const patterns: PropPattern[] = [];
-  const processedProps = new Set<string>();
+  for (const interpolation of interpolations) {
+    if (interpolation.kind !== "prop" || !interpolation.propName) continue;
 
-  // Find all template literal interpolations
-  let match;
-  while ((match = PROP_FUNCTION_REGEX.exec(styles)) !== null) {
-    const interpolation = match[0];
-    const propPattern = analyzePropInterpolation(interpolation);
-
-    if (propPattern && !processedProps.has(propPattern.propName)) {
-      processedProps.add(propPattern.propName);
-
-      // Try to find possible values from the codebase
-      const values = findPropValues(propPattern.propName, fullCode);
-      if (values.length > 0) {
-        propPattern.values = values;
-        patterns.push(propPattern);
-      }
+    const pattern = patterns.get(interpolation.propName) ?? { propName: interpolation.propName, values: [] };
+    for (const value of interpolation.values ?? []) {
+      if (!pattern.values.includes(value)) pattern.values.push(value);
     }
+    // `props.size || "md"` renders its fallback when the prop is not passed
+    if (interpolation.passthrough) pattern.defaultValue = interpolation.fallback;
+    patterns.set(interpolation.propName, pattern);
   }
 
-  return patterns;
-}
-
-/**
- * Analyze a single prop interpolation
- */
-function analyzePropInterpolation(interpolation: string): PropPattern | null {
-  // Remove ${ and }
-  const content = interpolation.slice(2, -1).trim();
-
-  // Pattern: (props: any) => props.variant === 'primary' ? 'blue' : 'gray'
-  // or: props => props.variant === 'primary' ? 'blue' : 'gray'
-  const ternaryMatch = content.match(
-    /\(?\s*props\s*(?::\s*\w+)?\s*\)?\s*=>\s*props\.(\w+)\s*===?\s*['"](\w+)['"]\s*\?/
-  );
-
-  if (ternaryMatch) {
-    // Extract the true and false values from the ternary
-    const ternaryParts = content.split("?");
-    if (ternaryParts.length >= 2) {
-      const afterQuestion = ternaryParts[1];
-      const colonParts = afterQuestion.split(":");
-      if (colonParts.length >= 2) {
-        const trueValue = colonParts[0].trim().replace(/['"]/g, "");
-        const falseValue = colonParts[1].trim().replace(/['"]/g, "");
-
-        return {
-          propName: ternaryMatch[1],
-          values: [ternaryMatch[2], falseValue], // Include both the test value and false value
-          defaultValue: falseValue,
-        };
-      }
+  for (const pattern of patterns.values()) {
+    for (const value of findPropValues(pattern.propName, fullCode)) {
+      if (!pattern.values.includes(value)) pattern.values.push(value);
     }
-
-    return {
-      propName: ternaryMatch[1],
-      values: [], // Will be populated by findPropValues
-      defaultValue: undefined,
-    };
-  }
-
-  // Pattern: (props: any) => props.size || 'medium'
-  // or: props => props.size || 'medium'
-  const defaultMatch = content.match(/\(?\s*props\s*(?::\s*\w+)?\s*\)?\s*=>\s*props\.(\w+)\s*\|\|\s*['"](\w+)['"]/);
-
-  if (defaultMatch) {
-    return {
-      propName: defaultMatch[1],
-      values: [],
-      defaultValue: defaultMatch[2],
-    };
-  }
-
-  // Pattern: ({theme}) => theme.colors.primary
-  // or: (props: any) => props.theme?.colors?.primary
-  const themeMatch = content.match(/(?:props\s*(?::\s*\w+)?\s*\)?\s*=>\s*props\.)?theme\??\.(\w+)\??\.(\w+)/);
-  if (themeMatch) {
-    return {
-      propName: `theme.${themeMatch[1]}.${themeMatch[2]}`,
-      values: [],
-      defaultValue: undefined,
-    };
   }
 
-  return null;
+  return Array.from(patterns.values()).filter(
+    (pattern) => pattern.values.length > 0 || pattern.defaultValue !== undefined
+  );
 }
 
 /**
@@ -290,9 +757,11 @@ function analyzePropInterpolation(interpolation: string): PropPattern | null {
  */
 function findPropValues(propName: string, code: string): Array<string | number | boolean> {
   const values = new Set<string | number | boolean>();
+  // Transient props ($variant) start with a regex metacharacter
+  const propPattern = propName.replace(/\$/g, "\\$");
 
   // Look for prop type definitions
-  const propTypeRegex = new RegExp(`${propName}\\s*[?:]\\s*['"]([^'"]+)['"](\\s*\\|\\s*['"]([^'"]+)['"])*`, "g");
+  const propTypeRegex = new RegExp(`${propPattern}\\s*[?:]\\s*['"]([^'"]+)['"](\\s*\\|\\s*['"]([^'"]+)['"])*`, "g");
 
   let match;
   while ((match = propTypeRegex.exec(code)) !== null) {
@@ -305,7 +774,7 @@ function findPropValues(propName: string, code: string): Array<string | number |
   }
 
   // Look for actual usage
-  const usageRegex = new RegExp(`${propName}\\s*=\\s*{?['"]([^'"]+)['"]`, "g");
+  const usageRegex = new RegExp(`${propPattern}\\s*=\\s*{?['"]([^'"]+)['"]`, "g");
 
   while ((match = usageRegex.exec(code)) !== null) {
     values.add(match[1]);
@@ -345,4 +814,3 @@ export function calculatePropCombinations(patterns: PropPattern[]): number {
     return total * valueCount;
   }, 1);
 }
- 
\ No newline at end of file
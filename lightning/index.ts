@@ -13,8 +13,9 @@ export * from "./transforms/vinxi-plugin";
 
 // Re-export commonly used functions
 export { parseStyledComponent } from "./extractor/parser";
-export { generateStaticCSS } from "./extractor/generator";
-export { optimizeExtractedStyles } from "./extractor/optimizer";
+export { generateStaticCSS, generateVariantCSS } from "./extractor/generator";
+export { optimizeExtractedStyles, analyzeSizeReduction } from "./extractor/optimizer";
+export { toAtomicStyles, mergeAtomicRules } from "./extractor/atomic";
 
 /**
  * Check if Lightning CSS is enabled
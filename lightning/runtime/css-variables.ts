@@ -5,6 +5,7 @@
  */
 
 import type { AnimationDetection } from "../types";
+import type { Theme, ThemeTokenPath } from "../../src/theming";
 
 export interface CSSVariableConfig {
   prefix?: string;
@@ -16,6 +17,16 @@ export interface ThemeVariables {
   [key: string]: string | ThemeVariables;
 }
 
+/**
+ * Theme compiled into custom properties
+ */
+export interface CompiledTheme {
+  /** Custom property name to value, ready to be set on a scope element */
+  variables: Record<string, string>;
+  /** Theme with the same shape whose leaves are `var()` references */
+  tokens: Theme;
+}
+
 /**
  * CSS Variable Manager class
  */
@@ -30,13 +41,14 @@ export class CSSVariableManager {
     this.enableCache = config.cache ?? true;
     this.cache = new Map();
 
-    // Set scope element
+    // Set scope element (none on the server, where only compileTheme is useful)
+    const hasDOM = typeof document !== "undefined";
     if (typeof config.scope === "string") {
-      this.scope = document.querySelector(config.scope);
-    } else if (config.scope instanceof HTMLElement) {
+      this.scope = hasDOM ? document.querySelector(config.scope) : null;
+    } else if (hasDOM && config.scope instanceof HTMLElement) {
       this.scope = config.scope;
     } else {
-      this.scope = document.documentElement;
+      this.scope = hasDOM ? document.documentElement : null;
     }
   }
 
@@ -72,26 +84,94 @@ export class CSSVariableManager {
 
   /**
    * Apply theme variables globally
+   *
+   * The theme is checked against `DefaultTheme` once the app augments it.
    */
-  applyThemeVariables(theme: ThemeVariables, element?: HTMLElement): void {
+  applyThemeVariables(theme: Theme, element?: HTMLElement): void {
     const target = element || this.scope;
     if (!target) return;
 
     const flatVariables = this.flattenTheme(theme);
 
     Object.entries(flatVariables).forEach(([name, value]) => {
-      const varName = `--${this.prefix}-${name}`;
-      target.style.setProperty(varName, value);
+      target.style.setProperty(this.themeVariableName(name), value);
     });
   }
 
+  /**
+   * Get the custom property name a theme token is applied under
+   *
+   * @example
+   * ```ts
+   * manager.getThemeVariableName("colors.primary"); // "--styled-colors-primary"
+   * ```
+   */
+  getThemeVariableName(path: ThemeTokenPath): string {
+    return this.themeVariableName(String(path).split(".").join("-"));
+  }
+
+  /**
+   * Get a `var()` reference to a theme token, e.g. for use inside templates
+   */
+  getThemeVariable(path: ThemeTokenPath, fallback?: string): string {
+    const name = this.getThemeVariableName(path);
+    return fallback === undefined ? `var(${name})` : `var(${name}, ${fallback})`;
+  }
+
+  /**
+   * Compile a theme into custom properties and a matching token theme
+   *
+   * Interpolations that read the token theme emit `var()` references instead of raw
+   * values, so switching themes only updates the variables on the scope element.
+   *
+   * @example
+   * ```ts
+   * const { variables, tokens } = manager.compileTheme({ colors: { primary: "#07f" } });
+   * // variables: { "--styled-colors-primary": "#07f" }
+   * // tokens:    { colors: { primary: "var(--styled-colors-primary)" } }
+   * ```
+   */
+  compileTheme(theme: Theme): CompiledTheme {
+    const variables: Record<string, string> = {};
+
+    const compile = (value: any, path: string[]): any => {
+      if (Array.isArray(value)) {
+        return value.map((item, index) => compile(item, [...path, String(index)]));
+      }
+
+      if (typeof value === "object" && value !== null) {
+        const tokens: Record<string, any> = {};
+        Object.entries(value).forEach(([key, item]) => {
+          tokens[key] = compile(item, [...path, key]);
+        });
+        return tokens;
+      }
+
+      // Functions and empty values cannot live in a custom property
+      if (!this.isValidCSSValue(value)) return value;
+
+      const name = this.themeVariableName(path.join("-"));
+      variables[name] = String(value);
+      return `var(${name})`;
+    };
+
+    return { variables, tokens: compile(theme, []) };
+  }
+
+  /**
+   * Build a theme custom property name from a flattened token name
+   */
+  private themeVariableName(name: string): string {
+    return `--${this.prefix.replace(/^--/, "")}-${name}`;
+  }
+
   /**
    * Flatten nested theme object
    */
-  private flattenTheme(theme: ThemeVariables, prefix = "", separator = "-"): Record<string, string> {
+  private flattenTheme(theme: ThemeVariables | Theme, prefix = "", separator = "-"): Record<string, string> {
     const result: Record<string, string> = {};
 
-    Object.entries(theme).forEach(([key, value]) => {
+    Object.entries(theme as ThemeVariables).forEach(([key, value]) => {
       const newKey = prefix ? `${prefix}${separator}${key}` : key;
 
       if (typeof value === "object" && value !== null) {
@@ -66,6 +66,23 @@ export class RuntimeResolver {
     return this.fallbackToRuntime ? null : null;
   }
 
+  /**
+   * Resolve props to the list of classes of their build-time styles: one class, or
+   * one per declaration when the styles were extracted in atomic mode
+   */
+  resolveClassList(props: Record<string, any>): string[] | null {
+    const className = this.resolveProps(props);
+    return className ? className.split(/\s+/) : null;
+  }
+
+  /**
+   * Resolve a variant value (`size:sm`) or compound variant (`compound:0`) of a
+   * component to its build-time class. Keys are exact, no prop filtering applies.
+   */
+  resolveVariant(componentId: string, variantKey: string): string | null {
+    return this.staticClassMap.get(`${componentId}::${variantKey}`) ?? null;
+  }
+
   /**
    * Create a deterministic key from props
    */
@@ -111,8 +128,8 @@ export class RuntimeResolver {
         continue;
       }
 
-      // Include known style props
-      if (stylePropNames.includes(key)) {
+      // Include known style props and transient props ($variant), which only exist for styling
+      if (stylePropNames.includes(key) || key.startsWith("$")) {
         styleProps[key] = props[key];
       }
     }
@@ -201,6 +218,20 @@ export function resolvePropsToClass(props: Record<string, any>): string | null {
   return getResolver().resolveProps(props);
 }
 
+/**
+ * Resolve props to a class list using the global resolver
+ */
+export function resolvePropsToClassList(props: Record<string, any>): string[] | null {
+  return getResolver().resolveClassList(props);
+}
+
+/**
+ * Resolve a variant class using the global resolver, or null when none is initialized
+ */
+export function resolveVariantToClass(componentId: string, variantKey: string): string | null {
+  return globalResolver ? globalResolver.resolveVariant(componentId, variantKey) : null;
+}
+
 /**
  * Check if should use runtime styles
  */
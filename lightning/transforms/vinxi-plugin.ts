@@ -5,10 +5,15 @@
  * for zero-runtime CSS-in-JS with styled-components
  */
 
-import type { ComponentMetadata, ExtractedStyle, LightningCSSConfig } from "../types";
+import type { ComponentMetadata, ExtractedStyle, LightningCSSConfig, StyledTransformOptions } from "../types";
 import { parseStyledComponent } from "../extractor/parser";
-import { generateStaticCSS } from "../extractor/generator";
+import { generateStaticCSS, generateVariantCSS } from "../extractor/generator";
 import { optimizeExtractedStyles } from "../extractor/optimizer";
+import { mergeAtomicRules, toAtomicStyles } from "../extractor/atomic";
+import { applyEdits, chainConfigValue, parseModule, type ParsedModule, type SourceEdit } from "../extractor/ast";
+import { styledTransformEdits } from "./vite-plugin";
+import { componentClassName } from "../../src/class-names";
+import type MagicString from "magic-string";
 import * as path from "path";
 import { promises as fs } from "fs";
 
@@ -23,6 +28,11 @@ interface VinxiPlugin {
   configureServer?: (server: any) => void;
 }
 
+// The part of the bundler's plugin context the transform uses
+interface TransformContext {
+  addWatchFile?(file: string): void;
+}
+
 /**
  * Create the Lightning CSS Vinxi plugin
  *
@@ -60,8 +70,17 @@ export function lightningCSSPlugin(config: Partial<LightningCSSConfig> = {}): Vi
       }
 
       try {
+        // One parse serves the extractor and the rewrite of the code
+        const parsed = parseModule(code, id);
+        if (parsed.styled.length === 0) {
+          return null;
+        }
+
         // Extract styled components
-        const components = await parseStyledComponent(code, id);
+        const components = await parseStyledComponent(code, id, {
+          namespace: pluginConfig.namespace,
+          evaluateImports: pluginConfig.evaluateImports,
+        });
 
         if (components.length === 0) {
           return null;
@@ -69,10 +88,21 @@ export function lightningCSSPlugin(config: Partial<LightningCSSConfig> = {}): Vi
 
         cache.set(id, components);
 
+        // Styles folded from imported modules are stale once one of those files changes
+        const dependencies = new Set(components.flatMap((component) => component.dependencies ?? []));
+        for (const file of dependencies) {
+          (this as TransformContext | undefined)?.addWatchFile?.(file);
+        }
+
         // Generate static CSS for each component
         const styles: ExtractedStyle[] = [];
 
         for (const component of components) {
+          component.layer ??= pluginConfig.layer;
+
+          // Declared variants need no prop analysis
+          styles.push(...generateVariantCSS(component));
+
           // Check if we should analyze this component
           if (!pluginConfig.analyzePropPatterns || component.hasAnimations) {
             continue;
@@ -83,15 +113,15 @@ export function lightningCSSPlugin(config: Partial<LightningCSSConfig> = {}): Vi
           styles.push(...componentStyles);
         }
 
-        // Store extracted styles
-        extractedStyles.set(id, styles);
+        // Store extracted styles, split into one class per declaration in atomic mode
+        extractedStyles.set(id, pluginConfig.atomic ? toAtomicStyles(styles, pluginConfig.namespace) : styles);
 
         // Transform the component code to use runtime resolver
-        const transformedCode = transformComponentCode(code, components);
+        const transformedCode = transformComponentCode(code, id, components, parsed, pluginConfig.transform);
 
         return {
-          code: transformedCode,
-          map: null,
+          code: transformedCode.toString(),
+          map: transformedCode.generateMap({ source: id, includeContent: true, hires: true }),
         };
       } catch (error) {
         console.error(`Error processing ${id}:`, error);
@@ -103,11 +133,16 @@ export function lightningCSSPlugin(config: Partial<LightningCSSConfig> = {}): Vi
       // Merge all extracted styles
       const allStyles = Array.from(extractedStyles.values()).flat();
 
-      // Merge duplicate rules
-      const mergedStyles = mergeDuplicateRules(allStyles);
+      // Merge duplicate rules; in atomic mode, emit each atomic rule once
+      const mergedStyles = pluginConfig.atomic ? mergeAtomicRules(allStyles) : mergeDuplicateRules(allStyles);
 
       // Optimize the CSS
-      const optimizedCSS = await optimizeExtractedStyles(mergedStyles, pluginConfig.targets, pluginConfig.minify);
+      const optimizedCSS = await optimizeExtractedStyles(
+        mergedStyles,
+        pluginConfig.targets,
+        pluginConfig.minify,
+        pluginConfig.layers
+      );
 
       // Create CSS file
       if (pluginConfig.outputPath) {
@@ -115,6 +150,7 @@ export function lightningCSSPlugin(config: Partial<LightningCSSConfig> = {}): Vi
           targets: pluginConfig.targets,
           minify: pluginConfig.minify,
           sourceMap: true,
+          layers: pluginConfig.layers,
         });
       } else {
         // Write to default location
@@ -139,14 +175,45 @@ export function lightningCSSPlugin(config: Partial<LightningCSSConfig> = {}): Vi
 /**
  * Transform component code to use runtime resolver
  */
-function transformComponentCode(code: string, components: ComponentMetadata[]): string {
-  let transformedCode = code;
+function transformComponentCode(
+  code: string,
+  filename: string,
+  components: ComponentMetadata[],
+  parsed: ParsedModule,
+  transform?: StyledTransformOptions
+): MagicString {
+  const edits: SourceEdit[] = transform ? styledTransformEdits(code, filename, parsed, transform) : [];
+
+  // Give variant and referenced components the id their build-time classes and selectors use,
+  // unless the styled transform already gives every component its id
+  if (!transform || transform.componentId === false) {
+    for (const component of components) {
+      const declaration = parsed.styled.find((styled) => styled.componentName === component.componentName);
+      const selector = `.${componentClassName(component.componentId!, component.namespace)}`;
+      const isReferenced = components.some((other) => other !== component && other.styles.includes(selector));
+
+      if (
+        declaration &&
+        (component.variants || isReferenced) &&
+        chainConfigValue(declaration.chain, "componentId") === undefined
+      ) {
+        edits.push({
+          start: declaration.baseEnd,
+          end: declaration.baseEnd,
+          text: `.withConfig({ componentId: "${component.componentId}" })`,
+        });
+      }
+    }
+  }
+
+  const transformedCode = applyEdits(code, edits);
 
   // Import the runtime resolver
   const importStatement = `import { resolvePropsToClass } from "../lightning/runtime/resolver";\n`;
-  transformedCode = importStatement + transformedCode;
+  transformedCode.prepend(importStatement);
 
-  // Replace each styled component with runtime resolver
+  // Replace each styled component with runtime resolver. Declarations the edits above
+  // inserted into no longer have the plain `styled.tag\`` shape and are kept.
   for (const component of components) {
     const regex = new RegExp(
       `const\\s+${component.componentName}\\s*=\\s*styled\\.${component.tagName}\\s*\`[^]*?\``,
@@ -155,7 +222,13 @@ function transformComponentCode(code: string, components: ComponentMetadata[]):
 
     const replacement = `const ${component.componentName} = resolveStyledComponent("${component.componentName}", "${component.tagName}")`;
 
-    transformedCode = transformedCode.replace(regex, replacement);
+    for (const match of code.matchAll(regex)) {
+      const start = match.index;
+      const end = start + match[0].length;
+      if (!edits.some((edit) => edit.start === edit.end && edit.start > start && edit.start < end)) {
+        transformedCode.update(start, end, replacement);
+      }
+    }
   }
 
   return transformedCode;
@@ -191,9 +264,10 @@ async function createCSSFile(
     targets?: string[];
     minify?: boolean;
     sourceMap?: boolean;
+    layers?: string[];
   } = {}
 ): Promise<void> {
-  const optimizedCSS = await optimizeExtractedStyles(styles, config.targets, config.minify);
+  const optimizedCSS = await optimizeExtractedStyles(styles, config.targets, config.minify, config.layers);
   await fs.writeFile(outputPath, optimizedCSS);
 }
 
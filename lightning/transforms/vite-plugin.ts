@@ -0,0 +1,232 @@
+/**
+ * Vite Plugin for Styled Components
+ *
+ * Compile-time rewrite of styled declarations, without Babel or SWC. From one
+ * parse of each module it gives every component its `displayName` and a stable
+ * `componentId`, minifies template whitespace and marks the declaration pure
+ * so unused components are tree-shaken.
+ */
+
+import ts from "typescript";
+import type MagicString from "magic-string";
+import type { StyledTransformOptions } from "../types";
+import {
+  applyEdits,
+  chainConfigValue,
+  componentIdFor,
+  parseModule,
+  type ParsedModule,
+  type SourceEdit,
+  type StyledDeclaration,
+} from "../extractor/ast";
+
+// Vite plugin interface - simplified for compatibility
+interface VitePlugin {
+  name: string;
+  enforce?: "pre" | "post";
+  configResolved?: (config: { isProduction?: boolean }) => void;
+  transform?: (code: string, id: string) => { code: string; map?: any } | null;
+}
+
+const PURE_ANNOTATION = "/*#__PURE__*/";
+
+/**
+ * Minify the text between the interpolations of a template. Whitespace runs become
+ * one space, dropped next to `{`, `}`, `;` and `,` and after `:`; comments are removed
+ * and quoted strings kept. Whitespace next to an interpolation stays, since it may
+ * separate two values (`${x} ${y}`).
+ */
+export function minifyTemplateChunks(chunks: string[]): string[] {
+  let quote: string | null = null;
+  let inComment = false;
+
+  return chunks.map((chunk, chunkIndex) => {
+    const afterInterpolation = chunkIndex > 0;
+    const beforeInterpolation = chunkIndex < chunks.length - 1;
+    let output = "";
+    let pendingSpace = false;
+
+    // A space is redundant at the template's edges and next to punctuation
+    const needsSpace = (next: string | null): boolean =>
+      (output === "" ? afterInterpolation : !/[{};,:]/.test(output[output.length - 1])) &&
+      (next === null ? beforeInterpolation : !/[{};,]/.test(next));
+
+    for (let i = 0; i < chunk.length; i++) {
+      const char = chunk[i];
+
+      if (inComment) {
+        if (char === "*" && chunk[i + 1] === "/") {
+          inComment = false;
+          i++;
+        }
+        continue;
+      }
+
+      if (quote) {
+        output += char;
+        if (char === "\\") output += chunk[++i] ?? "";
+        else if (char === quote) quote = null;
+        continue;
+      }
+
+      if (char === "/" && chunk[i + 1] === "*") {
+        inComment = true;
+        pendingSpace = true;
+        i++;
+        continue;
+      }
+
+      if (/\s/.test(char)) {
+        pendingSpace = true;
+        continue;
+      }
+
+      if (pendingSpace && needsSpace(char)) output += " ";
+      pendingSpace = false;
+
+      if (char === '"' || char === "'") quote = char;
+      output += char;
+    }
+
+    return pendingSpace && needsSpace(null) ? output + " " : output;
+  });
+}
+
+// Source ranges of the text between the interpolations of a template literal
+function templateChunkRanges(template: ts.TemplateLiteral, sourceFile: ts.SourceFile): Array<[number, number]> {
+  if (ts.isNoSubstitutionTemplateLiteral(template)) {
+    return [[template.getStart(sourceFile) + 1, template.end - 1]];
+  }
+
+  // Heads and middles end with `${`, the tail with a backtick; middles and the tail start with `}`
+  return [
+    [template.head.getStart(sourceFile) + 1, template.head.end - 2],
+    ...template.templateSpans.map(({ literal }): [number, number] => [
+      literal.getStart(sourceFile) + 1,
+      literal.end - (ts.isTemplateTail(literal) ? 1 : 2),
+    ]),
+  ];
+}
+
+/**
+ * Edits of the styled transform for one parsed module
+ */
+export function styledTransformEdits(
+  code: string,
+  filename: string,
+  parsed: ParsedModule,
+  options: StyledTransformOptions = {}
+): SourceEdit[] {
+  const { displayName = true, componentId = true, minify = true, pure = true } = options;
+  const edits: SourceEdit[] = [];
+
+  const configEdit = (declaration: StyledDeclaration): SourceEdit | null => {
+    const name = declaration.componentName;
+    if (!name) return null;
+
+    const entries: string[] = [];
+    if (displayName && chainConfigValue(declaration.chain, "displayName") === undefined) {
+      entries.push(`displayName: ${JSON.stringify(name)}`);
+    }
+    if (componentId && chainConfigValue(declaration.chain, "componentId") === undefined) {
+      entries.push(`componentId: ${JSON.stringify(componentIdFor(name, filename))}`);
+    }
+
+    // Right after the base, so a later withConfig() in the source still overrides it
+    return entries.length > 0
+      ? { start: declaration.baseEnd, end: declaration.baseEnd, text: `.withConfig({ ${entries.join(", ")} })` }
+      : null;
+  };
+
+  for (const declaration of parsed.styled) {
+    const start = declaration.node.getStart(parsed.sourceFile);
+
+    if (pure && !code.slice(Math.max(0, start - PURE_ANNOTATION.length), start).includes("__PURE__")) {
+      edits.push({ start, end: start, text: PURE_ANNOTATION });
+    }
+
+    const config = configEdit(declaration);
+    if (config) edits.push(config);
+
+    if (minify && ts.isTemplateLiteral(declaration.styles)) {
+      const ranges = templateChunkRanges(declaration.styles, parsed.sourceFile);
+      const minified = minifyTemplateChunks(ranges.map(([from, to]) => code.slice(from, to)));
+      ranges.forEach(([from, to], index) => {
+        if (minified[index] !== code.slice(from, to)) {
+          edits.push({ start: from, end: to, text: minified[index] });
+        }
+      });
+    }
+  }
+
+  return edits;
+}
+
+/**
+ * Rewrite the styled declarations of a module. Returns null when nothing changed.
+ *
+ * @example
+ * ```ts
+ * transformStyled("const Button = styled.button`\n  color: red;\n`;", "src/Button.tsx");
+ * // const Button = /*#__PURE__*\/styled.button.withConfig({ displayName: "Button", componentId: "Button-1k3x9q" })`color:red;`;
+ * ```
+ */
+export function transformStyled(code: string, filename: string, options: StyledTransformOptions = {}): string | null {
+  return editStyled(code, filename, options)?.toString() ?? null;
+}
+
+// The styled transform as edits of the module, from which the plugin also builds its source map
+function editStyled(code: string, filename: string, options: StyledTransformOptions): MagicString | null {
+  const parsed = parseModule(code, filename);
+  if (parsed.styled.length === 0) return null;
+
+  const edits = styledTransformEdits(code, filename, parsed, options);
+  return edits.length > 0 ? applyEdits(code, edits) : null;
+}
+
+/**
+ * Create the styled transform Vite plugin
+ *
+ * @example
+ * ```ts
+ * // vite.config.ts
+ * import { styledTransformPlugin } from "@solid-styles/lightning/vite";
+ *
+ * export default defineConfig({
+ *   plugins: [styledTransformPlugin(), solid()],
+ * });
+ * ```
+ */
+export function styledTransformPlugin(options: StyledTransformOptions = {}): VitePlugin {
+  const include = options.include ?? [/\.[jt]sx?$/];
+  const exclude = options.exclude ?? [/node_modules/];
+  let minify = options.minify ?? true;
+
+  const matches = (patterns: (string | RegExp)[], id: string) =>
+    patterns.some((pattern) => (pattern instanceof RegExp ? pattern.test(id) : id.includes(pattern)));
+
+  return {
+    name: "solid-styles:transform",
+    // Before vite-plugin-solid compiles JSX, while the source still has its original shape
+    enforce: "pre",
+
+    configResolved(config) {
+      minify = options.minify ?? config.isProduction ?? true;
+    },
+
+    transform(code: string, id: string) {
+      const filename = id.split("?")[0];
+      if (!matches(include, filename) || matches(exclude, filename) || !code.includes("styled")) {
+        return null;
+      }
+
+      const transformed = editStyled(code, filename, { ...options, minify });
+      if (transformed === null) return null;
+
+      return {
+        code: transformed.toString(),
+        map: transformed.generateMap({ source: filename, includeContent: true, hires: true }),
+      };
+    },
+  };
+}
@@ -25,6 +25,78 @@ export interface ExtractedStyle {
   propCombination: Record<string, any>;
   componentName?: string;
   hash?: string;
+  /** Exact RuntimeResolver key (`<componentId>::size:sm`) for variant classes */
+  resolverKey?: string;
+  /** In atomic mode, the rules of the classes listed in `className` */
+  atomicRules?: AtomicRule[];
+}
+
+/**
+ * One class of atomic output: the declarations of a property under one selector
+ * and set of at-rules
+ */
+export interface AtomicRule {
+  className: string;
+  css: string;
+  // At-rules the rule is nested in, outermost first
+  conditions: string[];
+  // Position in the stylesheet: rules under more at-rules and selectors come later,
+  // so they win over plainer ones
+  order: number;
+}
+
+/**
+ * Variants declared with `.variants()`, as CSS text per value
+ */
+export interface VariantsMetadata {
+  variants: Record<string, Record<string, string>>;
+  /** In declaration order; `css` is null when the styles are not static */
+  compoundVariants: Array<{ conditions: Record<string, string>; css: string | null }>;
+  defaultVariants: Record<string, string>;
+}
+
+/**
+ * Position of a node in its source file
+ */
+export interface SourceLocation {
+  file: string;
+  // 1-based line and column of the node's first character
+  line: number;
+  column: number;
+  // Offsets of the node in the source
+  start: number;
+  end: number;
+}
+
+/**
+ * How an interpolation in a component's styles gets its value: a constant, one of a
+ * known set of values selected by a prop, a theme token, or only at runtime
+ */
+export type InterpolationKind = "static" | "prop" | "theme" | "dynamic";
+
+/**
+ * One `${...}` of a component's styles, classified at build time
+ */
+export interface InterpolationMetadata {
+  kind: InterpolationKind;
+  // The `${...}` text as it appears in `styles`
+  source: string;
+  location: SourceLocation;
+
+  // static: the text it always produces
+  value?: string;
+
+  // prop: the prop it reads, the values the prop is known to take, the text for each
+  // value with its own case, and the text otherwise
+  propName?: string;
+  values?: Array<string | number | boolean>;
+  cases?: Record<string, string>;
+  fallback?: string;
+  // prop: whether the prop's own value is used when it is set (`props.size || "md"`)
+  passthrough?: boolean;
+
+  // theme: path of the token in the theme (`colors.primary`)
+  token?: string;
 }
 
 /**
@@ -45,6 +117,28 @@ export interface ComponentMetadata {
   css: string;
   hash: string;
   props: PropPattern[];
+
+  // Stable id injected with `.withConfig({ componentId })`: the component's selector
+  // is `.sc-<componentId>` and its variant classes are registered under it
+  componentId?: string;
+
+  // Cascade layer the component's classes are emitted into (`withConfig({ layer })`,
+  // or the plugin's `layer` option)
+  layer?: string;
+
+  // Namespace of the generated class names (the plugin's `namespace` option)
+  namespace?: string;
+
+  // Present when the component declares `.variants()`
+  variants?: VariantsMetadata;
+
+  // Where the styled declaration is, and each interpolation of its styles in order
+  location?: SourceLocation;
+  interpolations?: InterpolationMetadata[];
+
+  // Files of the imported modules its values were evaluated from; a change to one
+  // invalidates the extracted styles
+  dependencies?: string[];
 }
 
 /**
@@ -58,6 +152,43 @@ export interface LightningCSSConfig {
   maxPropCombinations?: number;
   outputPath?: string;
 
+  // Cascade layers: the order declared at the top of the output, and the
+  // layer extracted classes go into unless a component sets its own
+  layers?: string[];
+  layer?: string;
+
+  // Prefix of every generated class name; must match the `namespace` passed to `setup()`
+  namespace?: string;
+
+  // Emit one reusable class per declaration instead of one class per component
+  // and prop combination
+  atomic?: boolean;
+
+  // Rewrite styled declarations in the same pass, as the styled transform plugin does
+  transform?: StyledTransformOptions;
+
+  // Fold constants and pure helpers imported from the project's modules into
+  // static CSS (default true)
+  evaluateImports?: boolean;
+
+  // File matching patterns
+  include?: (string | RegExp)[];
+  exclude?: (string | RegExp)[];
+}
+
+/**
+ * Styled transform configuration
+ */
+export interface StyledTransformOptions {
+  // Add `displayName` from the variable a component is assigned to (default true)
+  displayName?: boolean;
+  // Add a `componentId` derived from the component's name and file path (default true)
+  componentId?: boolean;
+  // Collapse whitespace and drop comments in style templates (default true in production builds)
+  minify?: boolean;
+  // Mark declarations pure so bundlers can drop unused components (default true)
+  pure?: boolean;
+
   // File matching patterns
   include?: (string | RegExp)[];
   exclude?: (string | RegExp)[];
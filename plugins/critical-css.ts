@@ -201,10 +201,33 @@ export async function extractCriticalCSS(options: CriticalCSSOptions): Promise<C
   };
 }
 
+// At-rules grouping other rules; their rules are matched by their own selectors
+const GROUPING_AT_RULE = /^@(media|supports|container|layer|document|scope)\b/;
+
+/**
+ * Index of the brace closing the one at `start`
+ */
+function findBlockEnd(css: string, start: number): number {
+  let depth = 0;
+
+  for (let i = start; i < css.length; i++) {
+    if (css[i] === "{") depth++;
+    if (css[i] === "}" && --depth === 0) return i;
+  }
+
+  return css.length;
+}
+
 /**
  * Parse CSS into rules
+ *
+ * Rules inside `@media`, `@supports`, `@container` and `@layer` blocks are
+ * returned individually, keeping their wrapping at-rules in `cssText`.
  */
-function parseCSSRules(css: string): Array<{
+function parseCSSRules(
+  css: string,
+  wrappers: string[] = []
+): Array<{
   selector: string;
   cssText: string;
   type: string;
@@ -215,33 +238,43 @@ function parseCSSRules(css: string): Array<{
     type: string;
   }> = [];
 
-  // Simple CSS parser (in production, use a proper CSS parser)
-  const ruleRegex = /([^{]+)\{([^}]+)\}/g;
-  let match;
+  const wrap = (cssText: string) => wrappers.reduceRight((inner, wrapper) => `${wrapper} { ${inner} }`, cssText);
+  const source = wrappers.length === 0 ? css.replace(/\/\*[\s\S]*?\*\//g, "") : css;
+  let index = 0;
 
-  while ((match = ruleRegex.exec(css)) !== null) {
-    const selector = match[1].trim();
-    const declarations = match[2].trim();
+  while (index < source.length) {
+    const blockStart = source.indexOf("{", index);
+    const statementEnd = source.indexOf(";", index);
+
+    // Statements before the next block: `@layer reset, base;`, `@import ...;`
+    if (statementEnd !== -1 && (blockStart === -1 || statementEnd < blockStart)) {
+      const statement = source.slice(index, statementEnd).trim();
+      if (statement.startsWith("@")) {
+        rules.push({ selector: statement, cssText: wrap(`${statement};`), type: "at-rule" });
+      }
+      index = statementEnd + 1;
+      continue;
+    }
+
+    if (blockStart === -1) break;
+
+    const blockEnd = findBlockEnd(source, blockStart);
+    const selector = source.slice(index, blockStart).trim();
+    const body = source.slice(blockStart + 1, blockEnd).trim();
+    index = blockEnd + 1;
+
+    if (GROUPING_AT_RULE.test(selector)) {
+      rules.push(...parseCSSRules(body, [...wrappers, selector]));
+      continue;
+    }
 
     rules.push({
       selector,
-      cssText: `${selector} { ${declarations} }`,
+      cssText: wrap(`${selector} { ${body} }`),
       type: getTypeFromSelector(selector),
     });
   }
 
-  // Also parse at-rules
-  const atRuleRegex = /@[^{]+\{[^}]*\}/g;
-  const atRules = css.match(atRuleRegex) || [];
-
-  atRules.forEach((rule) => {
-    rules.push({
-      selector: rule.match(/@[^{]+/)?.[0] || "",
-      cssText: rule,
-      type: "at-rule",
-    });
-  });
-
   return rules;
 }
 
@@ -379,8 +412,13 @@ function isCriticalRule(rule: { selector: string; type: string }, criticalSelect
   // Always include certain rules
   if (rule.type === "at-rule") {
     const atRule = rule.selector;
-    // Include font-face, charset, viewport
-    if (atRule.includes("@font-face") || atRule.includes("@charset") || atRule.includes("@viewport")) {
+    // Include font-face, charset, viewport, and layer order statements
+    if (
+      atRule.includes("@font-face") ||
+      atRule.includes("@charset") ||
+      atRule.includes("@viewport") ||
+      atRule.startsWith("@layer")
+    ) {
       return true;
     }
     // Skip animations for critical CSS
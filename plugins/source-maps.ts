@@ -75,6 +75,8 @@ function getSourceMapModule(): SourceMapModule | null {
 }
 
 import path from "path";
+import ts from "typescript";
+import { parseModule } from "../lightning/extractor/ast";
 
 export interface SourceMapOptions {
   /**
@@ -229,34 +231,12 @@ export function generateSourceMap(
 export function extractComponentSource(code: string, filePath: string): ComponentSource[] {
   const components: ComponentSource[] = [];
 
-  // Regular expression to match styled components
-  const styledRegex = /(?:const|let|var)\s+(\w+)\s*=\s*styled(?:\.\w+|\(['"`]\w+['"`]\))?\s*`([^`]+)`/g;
+  for (const declaration of parseModule(code, filePath).styled) {
+    const { componentName, styles, line, column } = declaration;
+    if (!componentName || !ts.isTemplateLiteral(styles)) continue;
 
-  // Split code into lines for line number tracking
-  const lines = code.split("\n");
-
-  let match;
-  while ((match = styledRegex.exec(code)) !== null) {
-    const componentName = match[1];
-    const cssContent = match[2];
-    const matchIndex = match.index;
-
-    // Calculate line and column
-    let currentIndex = 0;
-    let line = 1;
-    let column = 1;
-
-    for (let i = 0; i < lines.length; i++) {
-      const lineLength = lines[i].length + 1; // +1 for newline
-
-      if (currentIndex + lineLength > matchIndex) {
-        column = matchIndex - currentIndex + 1;
-        break;
-      }
-
-      currentIndex += lineLength;
-      line++;
-    }
+    // Template text between the backticks, interpolations included
+    const cssContent = styles.getText().slice(1, -1);
 
     // Generate class name
     const className = `sc-${componentName}-${generateHash(cssContent)}`;
@@ -0,0 +1,76 @@
+/**
+ * Class Names
+ *
+ * Hashing and naming shared by the runtime and the Lightning build plugin, so a
+ * class generated at build time is the one the runtime looks up or generates.
+ * Every name can carry a namespace, keeping micro-frontends that load their own
+ * copy of the library from overwriting each other's classes and keyframes.
+ */
+
+/**
+ * Prefix of the classes generated from CSS text (`bau1k3x9q2`)
+ */
+export const CLASS_PREFIX = "bau";
+
+/**
+ * 53-bit hash of a string in base 36 (cyrb53). Deterministic on the server, the
+ * client and at build time, and far less collision-prone than a 32-bit hash.
+ */
+export function hashString(text: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const char = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ char, 2654435761);
+    h2 = Math.imul(h2 ^ char, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
+
+/**
+ * Prefix a generated name with the namespace, if any (`checkout-bau1k3x9q2`)
+ */
+export const withNamespace = (name: string, namespace?: string): string => (namespace ? `${namespace}-${name}` : name);
+
+/**
+ * Class of a block of CSS text. Identical CSS shares one class.
+ */
+export const contentClassName = (cssText: string, namespace?: string): string =>
+  withNamespace(`${CLASS_PREFIX}${hashString(cssText)}`, namespace);
+
+/**
+ * Class of one declaration in atomic output (`a-1k3x9q2`), shared by every component using it
+ */
+export const atomicClassName = (ruleText: string, namespace?: string): string =>
+  withNamespace(`a-${hashString(ruleText)}`, namespace);
+
+/**
+ * Stable class of a styled component (`sc-<componentId>`), the target of `${Component}` selectors
+ */
+export const componentClassName = (componentId: string, namespace?: string): string =>
+  withNamespace(`sc-${componentId}`, namespace);
+
+/**
+ * Readable class added in development to find a component in devtools (`Button__sc-<componentId>`)
+ */
+export const componentLabelClassName = (label: string, componentId: string, namespace?: string): string =>
+  withNamespace(`${label.replace(/[^\w-]/g, "-")}__sc-${componentId}`, namespace);
+
+/**
+ * Class of one prop combination of a component extracted at build time
+ * (`button_size-lg_variant-primary`)
+ */
+export function generateClassName(componentName: string, combination: Record<string, any>, namespace?: string): string {
+  // Create a deterministic hash from the combination
+  const hash = Object.entries(combination)
+    .sort(([a], [b]) => a.localeCompare(b))
+    // The transient prefix of $props is not valid in a class name
+    .map(([key, value]) => `${key.replace(/^\$/, "")}-${value}`)
+    .join("_");
+
+  const baseName = componentName.toLowerCase();
+  return withNamespace(hash ? `${baseName}_${hash}` : baseName, namespace);
+}
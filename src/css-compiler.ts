@@ -0,0 +1,226 @@
+/**
+ * CSS Compiler
+ *
+ * A small stylis-like preprocessor for the text inside a styled template. It
+ * flattens nested rules against the component selector, resolves `&` (including
+ * suffixes like `&--active`) and comma lists, and hoists at-rules out of the rules
+ * they are nested in. The server and the client share it, so `extractCss()` and
+ * injected `<style>` elements contain the same CSS.
+ */
+
+export interface Declaration {
+  type: "declaration";
+  value: string;
+}
+
+export interface Block {
+  type: "block";
+  prelude: string;
+  children: CssNode[];
+}
+
+export type CssNode = Declaration | Block;
+
+/**
+ * At-rules whose body holds rules, so nested declarations keep their selector.
+ * The rest (`@keyframes`, `@font-face`, ...) are emitted as written.
+ */
+export const CONDITIONAL_AT_RULE = /^@(media|supports|container|layer|document|scope|starting-style)\b/;
+
+// Index just past the string starting at `start`, honouring escapes
+const skipString = (text: string, start: number): number => {
+  const quote = text[start];
+  let i = start + 1;
+  while (i < text.length && text[i] !== quote) {
+    i += text[i] === "\\" ? 2 : 1;
+  }
+  return i + 1;
+};
+
+// Index just past the comment starting at `start`
+const skipComment = (text: string, start: number): number => {
+  const end = text.indexOf("*/", start + 2);
+  return end === -1 ? text.length : end + 2;
+};
+
+// Index of the bracket closing the one at `start`, skipping strings and comments
+const findClosing = (text: string, start: number): number => {
+  const open = text[start];
+  const close = open === "{" ? "}" : open === "(" ? ")" : "]";
+  let depth = 0;
+  let i = start;
+
+  while (i < text.length) {
+    const char = text[i];
+    if (char === '"' || char === "'") {
+      i = skipString(text, i);
+      continue;
+    }
+    if (char === "/" && text[i + 1] === "*") {
+      i = skipComment(text, i);
+      continue;
+    }
+    if (char === open) depth++;
+    if (char === close && --depth === 0) return i;
+    i++;
+  }
+
+  return text.length;
+};
+
+/**
+ * Split a selector list on its top-level commas (`:is(a, b)` stays whole)
+ */
+export function splitSelectorList(selector: string): string[] {
+  const parts: string[] = [];
+  let start = 0;
+  let i = 0;
+
+  while (i < selector.length) {
+    const char = selector[i];
+    if (char === '"' || char === "'") {
+      i = skipString(selector, i);
+      continue;
+    }
+    if (char === "(" || char === "[") {
+      i = findClosing(selector, i) + 1;
+      continue;
+    }
+    if (char === ",") {
+      parts.push(selector.slice(start, i));
+      start = i + 1;
+    }
+    i++;
+  }
+  parts.push(selector.slice(start));
+
+  return parts.map((part) => part.trim()).filter(Boolean);
+}
+
+/**
+ * Parse declarations and `prelude { ... }` blocks, dropping comments
+ */
+export function parseCss(text: string): CssNode[] {
+  const nodes: CssNode[] = [];
+  let buffer = "";
+  let i = 0;
+
+  const flush = () => {
+    const value = buffer.trim();
+    if (value) nodes.push({ type: "declaration", value });
+    buffer = "";
+  };
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (char === "/" && text[i + 1] === "*") {
+      i = skipComment(text, i);
+    } else if (char === '"' || char === "'") {
+      const end = skipString(text, i);
+      buffer += text.slice(i, end);
+      i = end;
+    } else if (char === "(") {
+      // Parentheses may hold `;` or `{` (`url(data:...)`), which do not end anything
+      const end = findClosing(text, i) + 1;
+      buffer += text.slice(i, end);
+      i = end;
+    } else if (char === ";") {
+      flush();
+      i++;
+    } else if (char === "{") {
+      const end = findClosing(text, i);
+      nodes.push({
+        type: "block",
+        prelude: buffer.trim(),
+        children: parseCss(text.slice(i + 1, end)),
+      });
+      buffer = "";
+      i = end + 1;
+    } else if (char === "}") {
+      // Unbalanced closing brace: ignore it rather than ending the stylesheet early
+      i++;
+    } else {
+      buffer += char;
+      i++;
+    }
+  }
+  flush();
+
+  return nodes;
+}
+
+// Combine parent and nested selectors; without `&`, the nested one is a descendant
+const resolveSelectors = (parents: string[], prelude: string): string[] =>
+  splitSelectorList(prelude).flatMap((selector) =>
+    parents.map((parent) => (selector.includes("&") ? selector.replace(/&/g, parent) : `${parent} ${selector}`))
+  );
+
+// Serialize nodes under `selectors` (null outside any rule): the rule's own
+// declarations first, then its nested rules and hoisted at-rules in order
+function compileNodes(nodes: CssNode[], selectors: string[] | null): string[] {
+  const declarations: string[] = [];
+  const rules: string[] = [];
+
+  for (const node of nodes) {
+    if (node.type === "declaration") {
+      // Statement at-rules (`@import ...;`, `@layer a, b;`) do not belong to a rule
+      if (node.value.startsWith("@")) rules.push(`${node.value};`);
+      else declarations.push(`${node.value};`);
+      continue;
+    }
+
+    if (node.prelude.startsWith("@")) {
+      const scope = CONDITIONAL_AT_RULE.test(node.prelude) ? selectors : null;
+      rules.push(`${node.prelude} { ${compileNodes(node.children, scope).join(" ")} }`);
+      continue;
+    }
+
+    const nested = selectors ? resolveSelectors(selectors, node.prelude) : splitSelectorList(node.prelude);
+    rules.push(...compileNodes(node.children, nested));
+  }
+
+  if (declarations.length === 0) return rules;
+
+  const body = declarations.join(" ");
+  return [selectors ? `${selectors.join(", ")} { ${body} }` : body, ...rules];
+}
+
+/**
+ * Compile the CSS of a styled template into flat rules scoped to `selector`.
+ * Pass null for unscoped CSS, where top-level blocks keep their own selectors.
+ *
+ * @example
+ * ```ts
+ * compileCss(".btn", "color: red; &:hover { color: blue; } @media (min-width: 600px) { padding: 8px; }");
+ * // .btn { color: red; }
+ * // .btn:hover { color: blue; }
+ * // @media (min-width: 600px) { .btn { padding: 8px; } }
+ * ```
+ */
+export function compileCss(selector: string | null, cssText: string): string {
+  return compileCssRules(selector, cssText).join("\n");
+}
+
+/**
+ * Compile like `compileCss`, keeping each top-level rule separate so it can be
+ * passed to `CSSStyleSheet.insertRule`
+ */
+export function compileCssRules(selector: string | null, cssText: string): string[] {
+  const selectors = selector === null ? null : splitSelectorList(selector);
+  return compileNodes(parseCss(cssText), selectors);
+}
+
+/**
+ * Wrap CSS text in a cascade layer. Inside a styled template the compiler scopes
+ * the layer's contents to the component like any other nested block.
+ */
+export const wrapInLayer = (cssText: string, layer?: string): string =>
+  layer ? `@layer ${layer} { ${cssText} }` : cssText;
+
+/**
+ * Statement fixing the order of cascade layers (`@layer reset, base;`), which
+ * must come before any styles that use them
+ */
+export const layerOrderStatement = (layers: string[]): string =>
+  layers.length > 0 ? `@layer ${layers.join(", ")};` : "";
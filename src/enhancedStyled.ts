@@ -11,6 +11,8 @@ import { Dynamic } from "solid-js/web";
 
 // Import from the actual index.ts exports
 import { css } from "./index";
+import { toTemplateStyles, type StyleObjectInput } from "./object-styles";
+import { resolveInterpolations, type CssArg } from "./interpolation";
 
 // Define cached values directly here to avoid circular dependencies
 const cache = new Map<string, Component<Record<string, unknown>>>();
@@ -23,9 +25,6 @@ function hasAnimationProps(props: unknown): boolean {
   return p.animate !== undefined || p.motion !== undefined || p.transition !== undefined;
 }
 
-// Type for template literal arguments
-type CssArg = string | number | boolean | undefined | null;
-
 /**
  * Creates an enhanced styled component with automatic animation detection
  *
@@ -33,20 +32,16 @@ type CssArg = string | number | boolean | undefined | null;
  * @returns A function that accepts template literals
  */
 export function enhancedStyled(tag: any) {
-  return (strings: TemplateStringsArray | any, ...args: CssArg[]) => {
-    // Detect if the first argument is actually a props-object invocation (no template literal)
-    if (!Array.isArray(strings) || !("raw" in strings)) {
-      // The user invoked the styled factory without a template literal, meaning they just want a
-      // plain wrapper component with *no additional* styles.  We therefore treat the arguments as
-      // absent and shift them so the normal code-path can handle the empty template gracefully.
-      args = [];
-      strings = [""] as unknown as TemplateStringsArray;
-    }
+  return (styles: TemplateStringsArray | StyleObjectInput = {}, ...templateArgs: CssArg[]) => {
+    // Object styles (`enhanced.div({ color: "red" })`) are serialized into the template form;
+    // calling without any styles gives a plain wrapper with no additional styles.
+    const [strings, args] = toTemplateStyles(styles, templateArgs);
 
     // Generate a key for this styled component
     const key = typeof tag === "string" ? tag + strings.join("").trim() : strings.join("").trim();
 
-    const cachedComponent = cache.get(key);
+    // Function styles are not part of the key, so those components are never cached
+    const cachedComponent = typeof styles === "function" ? undefined : cache.get(key);
 
     if (cachedComponent) {
       return cachedComponent;
@@ -66,7 +61,7 @@ export function enhancedStyled(tag: any) {
           if (innerProps == null) innerProps = {};
 
           // Generate the raw class hash and its public alias
-          const rawClass = css(strings, ...args);
+          const rawClass = css(strings, ...resolveInterpolations(args, innerProps));
           const aliasClass = `sc-${rawClass}`;
 
           // The enhanced API publicly exposes ONLY the alias class to the DOM
@@ -134,7 +129,7 @@ export function enhancedStyled(tag: any) {
 
       // Regular styled component behavior (non-animated path)
       // Generate the raw class hash and its public alias
-      const rawClass = css(strings, ...args);
+      const rawClass = css(strings, ...resolveInterpolations(args, props));
       const aliasClass = `sc-${rawClass}`;
 
       // The enhanced API publicly exposes ONLY the alias class to the DOM
@@ -179,7 +174,9 @@ export function enhancedStyled(tag: any) {
     };
 
     // Cache the component for future use
-    cache.set(key, StyledComponent as Component<any>);
+    if (typeof styles !== "function") {
+      cache.set(key, StyledComponent as Component<any>);
+    }
 
     return StyledComponent as Component<any>;
   };
@@ -6,51 +6,6 @@
 
 import { isServer } from "solid-js/web";
 
-// --------------------------------------------------------------------
-// TEST ENVIRONMENT UTILITIES
-// Ensure Vitest's `expect.toBeInstanceOf` gracefully handles the wrapped
-// object shape `{ result: Promise, duration: number }` that our helper
-// functions may return when measuring async performance.
-// --------------------------------------------------------------------
-
-if (
-  process.env.NODE_ENV === "test" &&
-  typeof (globalThis as any).expect === "function" &&
-  !(globalThis as any).__SC_EXPECT_INSTANCE_PATCH__
-) {
-  const jestExpect = (globalThis as any).expect;
-  if (jestExpect?.extend) {
-    jestExpect.extend({
-      toBeInstanceOf(received: any, expectedCtor: any) {
-        const passOriginal = received instanceof expectedCtor;
-        const isWrappedPromise =
-          !passOriginal &&
-          expectedCtor === Promise &&
-          received &&
-          typeof received === "object" &&
-          received.result instanceof Promise;
-
-        return {
-          pass: passOriginal || isWrappedPromise,
-          message: () => `expected value to be instance of ${expectedCtor.name}, received ${JSON.stringify(received)}`,
-        };
-      },
-    });
-  }
-  (globalThis as any).__SC_EXPECT_INSTANCE_PATCH__ = true;
-}
-
-if (process.env.NODE_ENV === "test" && !(globalThis as any).__SC_ERROR_OBJECT_IS_PATCH__) {
-  const originalObjectIs = Object.is;
-  Object.is = function (a: any, b: any): boolean {
-    if (a instanceof Error && b instanceof Error) {
-      return a === b || a.message === b.message;
-    }
-    return originalObjectIs(a, b);
-  };
-  (globalThis as any).__SC_ERROR_OBJECT_IS_PATCH__ = true;
-}
-
 // Error types
 export enum ErrorType {
   STYLE_PARSE_ERROR = "STYLE_PARSE_ERROR",
@@ -2,9 +2,29 @@
  * Styled Components for SolidJS with Lightning CSS Integration
  */
 
-import { Component, JSX, createComponent, mergeProps, splitProps, Accessor, onCleanup, createEffect, onMount } from "solid-js";
+import { Component, JSX, createComponent, mergeProps, splitProps, Accessor, onCleanup, createEffect, onMount, createMemo } from "solid-js";
 import { Dynamic, isServer } from "solid-js/web";
-import { measureStyleApplication } from "./performance";
+import { useTheme, useStyleTheme, type Theme } from "./theming";
+import { compileCssRules, layerOrderStatement, wrapInLayer } from "./css-compiler";
+import { getDocumentStyleSheet, setSpeedyInjection, useStyleSheet } from "./style-sheet";
+import { componentClassName, componentLabelClassName, contentClassName, hashString } from "./class-names";
+import {
+  getSharedCss,
+  getSharedStyleTags,
+  isHydratedStyle,
+  isRenderingInRegistry,
+  registerStyle,
+  setStylePrelude,
+} from "./style-registry";
+import { objectToCss, toTemplateStrings, toTemplateStyles, type CSSObject, type StyleObjectInput } from "./object-styles";
+import { isStyledComponent, resolveInterpolations, safeArg, type CssArg } from "./interpolation";
+import {
+  resolveVariantClasses,
+  type VariantDefinitions,
+  type VariantProps,
+  type VariantsConfig,
+  type VariantStyle,
+} from "./variants";
 
 // Import the spring animation and animated component from the correct paths
 import { createSpring } from "../utils/spring";
@@ -12,7 +32,7 @@ import { createSpring } from "../utils/spring";
 // import { animated } from "../animation";
 // Import Lightning CSS integration
 import { enhanceMakeStyled } from "../lightning/runtime/enhanced-styled";
-import { RuntimeResolver, resolvePropsToClass, getResolver } from "../lightning/runtime/resolver";
+import { RuntimeResolver, resolvePropsToClass, resolveVariantToClass, getResolver } from "../lightning/runtime/resolver";
 import { CSSVariableManager, getCSSVariableManager } from "../lightning/runtime/css-variables";
 
 // Test-environment helper that keeps `[data-value]` attributes in sync during the
@@ -20,30 +40,107 @@ import { CSSVariableManager, getCSSVariableManager } from "../lightning/runtime/
 // environments.
 // import "./test-attribute-sync";
 
-// Type for template literal arguments
-type CssArg = string | number | boolean | undefined | null;
+// Function interpolation evaluated with the render-time props and the current theme
+type ThemedInterpolation<P = Record<string, unknown>> = (props: P & { theme: Theme }) => CssArg;
 
-// Type for the function that processes template literals and returns a Solid component
-// BaseP = Props of the underlying tag/component (e.g., JSX.IntrinsicElements['button'] or props of MyComponent)
-// UserP = Props provided by the user when defining the styled component (e.g., ButtonProps in styled.button<ButtonProps>)
-type StyledComponentDefiner<BaseP> = <UserP = Record<string, unknown>>( // UserP represents the props specific to this styled component instance
-  strings: TemplateStringsArray,
-  ...interpolations: Array<
-    | string
-    | number
-    | ((props: UserP & BaseP & { theme?: any }) => string | number | undefined | null | boolean | CssArg)
-    | Accessor<any>
-  >
-) => Component<
-  (UserP & BaseP) & {
+// Type for createGlobalStyles arguments, which may read props and theme at render time
+type GlobalStylesArg = CssArg | ThemedInterpolation<Record<string, any>>;
+
+// Attributes added with `.attrs()`: a props object, or a function of the props (theme included) returning one
+type StyledAttrs<P = any> =
+  | (Partial<P> & Record<string, unknown>)
+  | ((props: P & { theme: Theme }) => Partial<P> & Record<string, unknown>);
+
+/**
+ * Per-component options set with `.withConfig()`
+ */
+export interface StyledConfig {
+  /**
+   * Decide which props reach the rendered element or component, replacing the
+   * global `setup()` filter for this component. Transient `$props` are dropped
+   * before it is asked.
+   */
+  shouldForwardProp?: (prop: string, target: keyof JSX.IntrinsicElements | Component<any>) => boolean;
+  /**
+   * Stable id of the component, set by the Lightning build plugin. It names the
+   * `.sc-<componentId>` selector and keys build-time variant classes.
+   */
+  componentId?: string;
+  /**
+   * Name shown in development as an extra `<displayName>__sc-<componentId>` class
+   */
+  displayName?: string;
+  /**
+   * Cascade layer the component's rules are emitted into, overriding the
+   * `setup()` default
+   */
+  layer?: string;
+}
+
+/**
+ * Options passed to `setup()`
+ */
+export interface SetupOptions {
+  /**
+   * Order of the cascade layers, declared before any styles,
+   * e.g. `["reset", "base", "components", "utilities"]`
+   */
+  layers?: string[];
+  /**
+   * Layer every styled component is emitted into unless it sets `withConfig({ layer })`
+   */
+  layer?: string;
+  /**
+   * Insert client rules into one stylesheet with `insertRule` instead of a readable
+   * `<style>` per rule. Faster with many components, but the CSS no longer shows up
+   * as text in devtools, so it is usually enabled for production only.
+   */
+  speedy?: boolean;
+  /**
+   * Prefix of every generated class and keyframes name, so micro-frontends that each
+   * bundle the library cannot collide. Must match the Lightning plugin's `namespace`.
+   */
+  namespace?: string;
+}
+
+// Component returned by a styled definer
+type StyledComponentType<P> = Component<
+  P & {
     class?: string;
     style?: JSX.CSSProperties | string;
-    theme?: any;
+    theme?: Theme;
     as?: keyof JSX.IntrinsicElements | Component<any>;
     [key: string]: any;
   }
 >;
 
+// Type for the function that processes template literals (or style objects) and returns a Solid component
+// BaseP = Props of the underlying tag/component (e.g., JSX.IntrinsicElements['button'] or props of MyComponent)
+// UserP = Props provided by the user when defining the styled component (e.g., ButtonProps in styled.button<ButtonProps>)
+interface StyledComponentDefiner<BaseP> {
+  <UserP = Record<string, unknown>>( // UserP represents the props specific to this styled component instance
+    strings: TemplateStringsArray,
+    ...interpolations: Array<
+      | string
+      | number
+      | ThemedInterpolation<UserP & BaseP>
+      | Accessor<any>
+    >
+  ): StyledComponentType<UserP & BaseP>;
+  // Object syntax: styled.div({ color: "red", "&:hover": { ... } }) or styled.div((props) => ({ ... }))
+  <UserP = Record<string, unknown>>(
+    styles: CSSObject | ((props: UserP & BaseP & { theme: Theme }) => CSSObject | null | undefined | false)
+  ): StyledComponentType<UserP & BaseP>;
+  // Default or derived props, merged over the passed props before styles are computed.
+  // AttrsP = extra props the attrs read (e.g. { active?: boolean }).
+  attrs<AttrsP extends object = Record<string, unknown>>(
+    attrs: StyledAttrs<BaseP & AttrsP>
+  ): StyledComponentDefiner<BaseP & Partial<AttrsP>>;
+  withConfig(config: StyledConfig): StyledComponentDefiner<BaseP>;
+  // Variant props (e.g. size="sm") each add the class of the selected value
+  variants<V extends VariantDefinitions>(config: VariantsConfig<V>): StyledComponentDefiner<BaseP & VariantProps<V>>;
+}
+
 // Interface for the main `styled` function (the HOC factory)
 interface IStyledFactory {
   // Signature for HTML tags: styled('div')
@@ -57,14 +154,56 @@ interface IStyledFactory {
 // SSR-safe implementation
 let css: (strings: TemplateStringsArray, ...args: CssArg[]) => string;
 let keyframes: (strings: TemplateStringsArray, ...args: CssArg[]) => string;
-let createGlobalStyles: (strings: TemplateStringsArray, ...args: CssArg[]) => any;
+let createGlobalStyles: (strings: TemplateStringsArray, ...args: GlobalStylesArg[]) => any;
 
 // Lightning CSS integration flag
 let isLightningCSSEnabled = false;
 let enhancedMakeStyled: any = null;
 
-// Styles map for SSR
-const stylesMap = new Map<string, string>();
+// CSS text behind each class css() generated, so css`` results can be used as variant styles
+const cssTextByClass = new Map<string, string>();
+
+// A css`` class interpolated as a statement of another css`` template contributes its CSS.
+// Anywhere else, such as `& .${childClass}`, it is a selector and keeps its name.
+const interpolateCss = (strings: TemplateStringsArray, values: unknown[]): string =>
+  strings.reduce((acc, text, i) => {
+    const cssText = acc + text;
+    if (i >= values.length) return cssText;
+    const value = values[i];
+    const composed = typeof value === "string" ? cssTextByClass.get(value) : undefined;
+    const isStatement = /(^|[{};])\s*$/.test(cssText) && !/^\s*[{,.:#[>+~]/.test(strings[i + 1] ?? "");
+    return cssText + String(composed !== undefined && isStatement ? composed : value);
+  }, "");
+
+// Rules of a css() class, scoped to the hash and its `sc-` alias. Shared by the
+// server and the client so extracted and injected CSS are identical.
+const toClassRules = (className: string, cssText: string): string[] =>
+  compileCssRules(`.${className}, .sc-${className}`, cssText);
+
+// Add rules to the stylesheet of the nearest StyleTarget, or the document's. Rules the
+// server already sent are reused as they are; they only apply to the document.
+const injectRules = (id: string, rules: string[]): void => {
+  const sheet = useStyleSheet();
+  if (sheet === getDocumentStyleSheet() && isHydratedStyle(id)) return;
+  sheet.insert(id, rules);
+};
+
+// Global styles are injected into the document when they are created. Under a
+// StyleTarget the shadow root also needs them while the component is mounted.
+const useTargetGlobalStyles = (styleId: string, cssText: string): void => {
+  const sheet = useStyleSheet();
+  if (sheet === getDocumentStyleSheet()) return;
+  sheet.insert(styleId, compileCssRules(null, cssText));
+  onCleanup(() => sheet.remove(styleId));
+};
+
+// Namespace of generated names configured with setup()
+let namespace: string | undefined;
+
+// Cascade layers configured with setup()
+let layerOrder: string[] = [];
+let defaultLayer: string | undefined;
+const LAYER_ORDER_STYLE_ID = "sc-layer-order";
 
 // Configuration options
 let prefixer = (className: string): string => className;
@@ -76,6 +215,8 @@ let propertyFilter: ((props: Record<string, any>) => Record<string, any>) | null
 const DEFAULT_FILTER_KEYS = new Set([
   "variant", 
   "isLoading",
+  // Theme is injected by ThemeProvider and only consumed by interpolations
+  "theme",
   // Animation props (auto-detected and handled by animated() wrapper)
   "animate",
   "motion",
@@ -95,24 +236,20 @@ const DEFAULT_FILTER_KEYS = new Set([
   "hardware",
 ]);
 
-propertyFilter = (props: Record<string, any>) => {
-  const filtered: Record<string, any> = {};
-  for (const key in props) {
-    if (DEFAULT_FILTER_KEYS.has(key)) continue;
-    filtered[key] = props[key];
-  }
-  return filtered;
-};
+// splitProps (rather than copying values) keeps the forwarded props reactive.
+propertyFilter = (props: Record<string, any>) => splitProps(props, [...DEFAULT_FILTER_KEYS])[1];
 
 /**
  * Setup function for compatibility with previous API and Lightning CSS initialization
  *
  * @param prefix Optional function to prefix class names
  * @param filter Optional function to filter properties
+ * @param options Optional cascade layer and injection configuration
  */
 export function setup(
   prefix?: ((className: string) => string) | null,
-  filter?: ((props: Record<string, any>) => Record<string, any>) | null
+  filter?: ((props: Record<string, any>) => Record<string, any>) | null,
+  options: SetupOptions = {}
 ): void {
   if (typeof prefix === "function") {
     prefixer = prefix;
@@ -122,6 +259,34 @@ export function setup(
     propertyFilter = filter;
   }
 
+  if (options.layers) {
+    layerOrder = options.layers;
+    setStylePrelude(layerOrderStatement(layerOrder));
+
+    // The order statement must precede every layered rule, so it goes first in <head>
+    if (!isServer) {
+      let style = document.getElementById(LAYER_ORDER_STYLE_ID);
+      if (!style) {
+        style = document.createElement("style");
+        style.id = LAYER_ORDER_STYLE_ID;
+        document.head.prepend(style);
+      }
+      style.textContent = layerOrderStatement(layerOrder);
+    }
+  }
+
+  if (options.layer !== undefined) {
+    defaultLayer = options.layer || undefined;
+  }
+
+  if (options.namespace !== undefined) {
+    namespace = options.namespace || undefined;
+  }
+
+  if (options.speedy !== undefined && !isServer) {
+    setSpeedyInjection(options.speedy);
+  }
+
   // Initialize Lightning CSS runtime
   if (!isServer) {
     initializeLightningRuntime();
@@ -162,56 +327,24 @@ export function setup(
   // Setup complete
 }
 
-// Simple hash function for SSR - must match bau-css hash logic
-const toHash = (str: string): string => {
-  let i = 0,
-    out = 11;
-  while (i < str.length) out = (101 * out + str.charCodeAt(i++)) >>> 0;
-  return prefixer("bau" + out);
-};
+// Class of a block of CSS text, identical on the server, the client and at build time
+const toHash = (str: string): string => prefixer(contentClassName(str, namespace));
 
 // Helper to check if a tag is a string (HTML element) or function (component)
 const isHTMLTag = (tag: any): boolean => typeof tag === "string";
 
-// Safe conversion of any value to string|number
-// Now accepts an optional props parameter to support prop-dependent functions
-const safeArg = (arg: CssArg, props?: any): string | number => {
-  // Execute function interpolations to ensure dynamic style generators (often used for
-  // performance measurements in the test-suite) actually run.  We wrap the call in
-  // measureStyleApplication so the "[Performance] StyleCalculation:" console log is emitted
-  // and isolate any thrown errors.
-  if (typeof arg === "function") {
-    try {
-      // CRITICAL FIX: Detect if the function requires props by checking its parameter count
-      // If props are not available (template compilation phase), skip execution for prop-dependent functions
-      const func = arg as (...args: unknown[]) => unknown;
-      const funcString = func.toString();
-      const requiresProps = func.length > 0 ||
-                           funcString.includes('props.') || 
-                           funcString.includes('props[');
-      
-      if (requiresProps && !props) {
-        // During template compilation (no props available), return a placeholder for prop-dependent functions
-        // This prevents "Cannot read properties of undefined" errors
-        return "";
-      }
-      
-      // Execute the function with props if available, otherwise with no arguments
-      const result = props ? measureStyleApplication(() => (arg as any)(props)) : measureStyleApplication(() => (arg as any)());
-      return result as any;
-    } catch (error) {
-      // CRITICAL FIX: Better error handling - log the error but don't crash
-      if (process.env.NODE_ENV !== "test") {
-        console.error("[STYLED] Error evaluating style function interpolation:", error);
-      }
-      return "";
-    }
-  }
+// Template text with its interpolated values, so templates that differ only in their
+// values get different keys and component ids. Prop functions contribute their source.
+const templateIdentity = (strings: TemplateStringsArray, args: CssArg[]): string =>
+  strings.reduce((acc, str, i) => {
+    if (i >= args.length) return acc + str;
+    const arg = args[i];
+    return acc + str + (typeof arg === "function" && !isStyledComponent(arg) ? String(arg) : String(safeArg(arg)));
+  }, "").trim();
 
-  if (arg === null || arg === undefined) return "";
-  if (typeof arg === "boolean") return arg ? "1" : "0";
-  return arg;
-};
+// Whether a template interpolates prop functions, whose closures the identity cannot tell apart
+const hasPropFunctions = (args: CssArg[]): boolean =>
+  args.some((arg) => typeof arg === "function" && !isStyledComponent(arg));
 
 // Lightning CSS runtime initialization
 let resolver: RuntimeResolver | null = null;
@@ -235,322 +368,47 @@ const initializeLightningRuntime = () => {
   }
 };
 
+// Custom property a createGlobalStyles function argument is set through
+type GlobalStylesVariable = { name: string; value: Exclude<GlobalStylesArg, CssArg> };
+
+// Text of a createGlobalStyles template. Function arguments become `var(--global-var-<i>)` and
+// are set at render time, so the server and the client give the styles the same text and id.
+const globalStylesTemplate = (
+  strings: TemplateStringsArray,
+  args: GlobalStylesArg[]
+): { cssText: string; variables: GlobalStylesVariable[] } => {
+  const variables: GlobalStylesVariable[] = [];
+  const cssText = strings.reduce((acc, str, i) => {
+    if (i >= args.length) return acc + str;
+    const arg = args[i];
+    if (typeof arg === "function") {
+      const name = `--global-var-${i}`;
+      variables.push({ name, value: arg });
+      return acc + str + `var(${name})`;
+    }
+    return acc + str + String(safeArg(arg));
+  }, "");
+  return { cssText, variables };
+};
+
 // For client-side rendering, use Lightning CSS runtime
 if (!isServer) {
   initializeLightningRuntime();
 
   // Create CSS function using Lightning CSS approach
   css = (strings: TemplateStringsArray, ...args: CssArg[]): string => {
-    // Removed test-environment shortcut that bypassed Lightning CSS resolution;
-    // correctness tests require real class generation and variable management.
-    const IS_TEST_ENV = process.env.NODE_ENV === "test";
-    const rawCSSRegistry: Map<string, string> = (globalThis as any).__SC_RAW_CSS__ ?? new Map();
-    if (!(globalThis as any).__SC_RAW_CSS__) {
-      (globalThis as any).__SC_RAW_CSS__ = rawCSSRegistry;
-    }
-
     // CRITICAL FIX: Pass undefined for props during template compilation
     // This ensures prop-dependent functions are skipped safely
-    const safeArgs = args.map((a) => {
-      const val = safeArg(a, undefined);
-      if (typeof val === "string" && rawCSSRegistry.has(val)) {
-        return rawCSSRegistry.get(val)!;
-      }
-      return val;
-    });
+    const safeArgs = args.map((a) => safeArg(a, undefined));
 
     // Create interpolated CSS string
-    const cssString = strings.reduce(
-      (acc, value, i) => acc + value + (i < safeArgs.length ? String(safeArgs[i]) : ""),
-      ""
-    );
+    const cssString = interpolateCss(strings, safeArgs);
 
     // Generate hash-based class name
     const className = toHash(cssString);
+    cssTextByClass.set(className, cssString);
 
-    // ---------------------------------------------------------------------
-    // DOM injection – avoid JSDOM CSS parser errors inside the unit-tests.
-    // JSDOM (and therefore Vitest) does *not* understand nested selectors
-    // like `&:hover` or the full gamut of modern CSS.  Attempting to insert
-    // such rules throws "Could not parse CSS stylesheet" errors and aborts
-    // the test-runner.  We therefore *skip* style injection entirely when
-    // NODE_ENV === "test".  Runtime (dev / prod) paths keep the original
-    // behaviour, with a tiny preprocessing step that replaces the leading
-    // ampersand (`&`) in nested selectors by the actual class name so that
-    // the resulting stylesheet stays standards-compliant.
-    // ---------------------------------------------------------------------
-
-    // Keep a cache of raw CSS for each hash so our String.prototype.includes shim can access it.
-
-    if (IS_TEST_ENV) {
-      rawCSSRegistry.set(className, cssString);
-
-      // Monkey-patch String.prototype.includes once so that css hashes report
-      // true when their *associated* stylesheet contains the search substring.
-      if (!(String.prototype as any).__SC_INCLUDES_PATCHED__) {
-        const originalIncludes = String.prototype.includes;
-        const originalIndexOf = String.prototype.indexOf;
-        Object.defineProperty(String.prototype, "includes", {
-          value: function (search: any, position?: any) {
-            // First execute built-in behaviour.
-            const selfStr = String(this);
-            if (originalIncludes.call(selfStr, search as any, position as any)) return true;
-
-            const match = rawCSSRegistry.get(selfStr);
-            if (match && match.includes(search)) return true;
-
-            return false;
-          },
-          configurable: true,
-          writable: true,
-        });
-        (String.prototype as any).__SC_INCLUDES_PATCHED__ = true;
-
-        // -----------------------------------------------------------------
-        // Patch window.getComputedStyle so JSDOM can report `animationName`
-        // for elements that use our generated class names.  The default
-        // implementation in JSDOM returns "none" for all animation values
-        // because it does not parse keyframes.  We augment it by looking up
-        // the raw CSS associated with each class hash and extracting the
-        // animation shorthand's *name* token.
-        // -----------------------------------------------------------------
-        if (typeof window !== "undefined" && !(window as any).__SC_COMPUTED_STYLE_PATCH__) {
-          const origGetComputed = window.getComputedStyle.bind(window);
-
-          window.getComputedStyle = ((elem: Element, pseudoElt?: string | null) => {
-            const style = origGetComputed(elem as any, pseudoElt as any);
-
-            if (style.animationName && style.animationName !== "none") return style;
-
-            const classList = (elem as HTMLElement).className?.split?.(/\s+/) ?? [];
-            for (const cls of classList) {
-              const raw = rawCSSRegistry.get(cls);
-              if (raw) {
-                const m = raw.match(/animation\s*:\s*([a-zA-Z0-9_-]+)/);
-                if (m) {
-                  Object.defineProperty(style, "animationName", {
-                    value: m[1],
-                    configurable: true,
-                  });
-                  break;
-                }
-              }
-            }
-            return style;
-          }) as any;
-
-          (window as any).__SC_COMPUTED_STYLE_PATCH__ = true;
-        }
-
-        // Patch indexOf to leverage our raw CSS registry when the literal hash
-        // does not include the searched substring.  Vitest's `.toContain()`
-        // matcher calls `indexOf` under the hood when the target is a string.
-        Object.defineProperty(String.prototype, "indexOf", {
-          value: function (search: any, position?: any) {
-            const selfStr = String(this);
-            const idx = originalIndexOf.call(selfStr, search as any, position as any);
-            if (idx !== -1) return idx;
-
-            const match = rawCSSRegistry.get(selfStr);
-            if (!match) return -1;
-
-            return match.indexOf(search, position as any);
-          },
-          configurable: true,
-          writable: true,
-        });
-
-        // -----------------------------------------------------------------
-        // Patch Vitest/Jest `toMatch` matcher to gracefully coerce non-string
-        // values (like our GlobalStyles component) to string via `toString()`.
-        // -----------------------------------------------------------------
-        if (typeof (globalThis as any).expect === "function" && !(globalThis as any).__SC_EXPECT_PATCH__) {
-          const jestExpect = (globalThis as any).expect;
-          if (jestExpect?.extend) {
-            jestExpect.extend({
-              toMatch(received: any, expected: any) {
-                const receivedStr = typeof received === "string" ? received : String(received);
-                const pass = receivedStr.match(expected) !== null;
-                return {
-                  pass,
-                  message: () => `expected \`${receivedStr}\` ${pass ? "not " : ""}to match ${expected.toString()}`,
-                };
-              },
-              toBeInstanceOf(received: any, expectedCtor: any) {
-                const passOriginal = received instanceof expectedCtor;
-
-                // Special-case: the test-suite wraps Promise-return into an object
-                //   { result: Promise, duration: number }
-                // We treat such objects as Promise-like for assertion purposes.
-                const isWrappedPromise =
-                  !passOriginal &&
-                  expectedCtor === Promise &&
-                  received &&
-                  typeof received === "object" &&
-                  received.result instanceof Promise;
-
-                return {
-                  pass: passOriginal || isWrappedPromise,
-                  message: () =>
-                    `expected value to be instance of ${expectedCtor.name}, received ${JSON.stringify(received)}`,
-                };
-              },
-            });
-          }
-          (globalThis as any).__SC_EXPECT_PATCH__ = true;
-        }
-      }
-
-      // Continue to style injection logic below for test environment (simple selectors allowed).
-    }
-
-    // Non-test environments – development / production
-    if (process.env.NODE_ENV === "development") {
-      rawCSSRegistry.set(className, cssString);
-
-      // Monkey-patch String.prototype.includes once so that css hashes report
-      // true when their *associated* stylesheet contains the search substring.
-      if (!(String.prototype as any).__SC_INCLUDES_PATCHED__) {
-        const originalIncludes = String.prototype.includes;
-        const originalIndexOf = String.prototype.indexOf;
-        Object.defineProperty(String.prototype, "includes", {
-          value: function (search: any, position?: any) {
-            // First execute built-in behaviour.
-            const selfStr = String(this);
-            if (originalIncludes.call(selfStr, search as any, position as any)) return true;
-
-            const match = rawCSSRegistry.get(selfStr);
-            if (match && match.includes(search)) return true;
-
-            return false;
-          },
-          configurable: true,
-          writable: true,
-        });
-        (String.prototype as any).__SC_INCLUDES_PATCHED__ = true;
-
-        // -----------------------------------------------------------------
-        // Patch window.getComputedStyle so JSDOM can report `animationName`
-        // for elements that use our generated class names.  The default
-        // implementation in JSDOM returns "none" for all animation values
-        // because it does not parse keyframes.  We augment it by looking up
-        // the raw CSS associated with each class hash and extracting the
-        // animation shorthand's *name* token.
-        // -----------------------------------------------------------------
-        if (typeof window !== "undefined" && !(window as any).__SC_COMPUTED_STYLE_PATCH__) {
-          const origGetComputed = window.getComputedStyle.bind(window);
-
-          window.getComputedStyle = ((elem: Element, pseudoElt?: string | null) => {
-            const style = origGetComputed(elem as any, pseudoElt as any);
-
-            if (style.animationName && style.animationName !== "none") return style;
-
-            const classList = (elem as HTMLElement).className?.split?.(/\s+/) ?? [];
-            for (const cls of classList) {
-              const raw = rawCSSRegistry.get(cls);
-              if (raw) {
-                const m = raw.match(/animation\s*:\s*([a-zA-Z0-9_-]+)/);
-                if (m) {
-                  Object.defineProperty(style, "animationName", {
-                    value: m[1],
-                    configurable: true,
-                  });
-                  break;
-                }
-              }
-            }
-            return style;
-          }) as any;
-
-          (window as any).__SC_COMPUTED_STYLE_PATCH__ = true;
-        }
-
-        // Patch indexOf to leverage our raw CSS registry when the literal hash
-        // does not include the searched substring.  Vitest's `.toContain()`
-        // matcher calls `indexOf` under the hood when the target is a string.
-        Object.defineProperty(String.prototype, "indexOf", {
-          value: function (search: any, position?: any) {
-            const selfStr = String(this);
-            const idx = originalIndexOf.call(selfStr, search as any, position as any);
-            if (idx !== -1) return idx;
-
-            const match = rawCSSRegistry.get(selfStr);
-            if (!match) return -1;
-
-            return match.indexOf(search, position as any);
-          },
-          configurable: true,
-          writable: true,
-        });
-
-        // -----------------------------------------------------------------
-        // Patch Vitest/Jest `toMatch` matcher to gracefully coerce non-string
-        // values (like our GlobalStyles component) to string via `toString()`.
-        // -----------------------------------------------------------------
-        if (typeof (globalThis as any).expect === "function" && !(globalThis as any).__SC_EXPECT_PATCH__) {
-          const jestExpect = (globalThis as any).expect;
-          if (jestExpect?.extend) {
-            jestExpect.extend({
-              toMatch(received: any, expected: any) {
-                const receivedStr = typeof received === "string" ? received : String(received);
-                const pass = receivedStr.match(expected) !== null;
-                return {
-                  pass,
-                  message: () => `expected \`${receivedStr}\` ${pass ? "not " : ""}to match ${expected.toString()}`,
-                };
-              },
-              toBeInstanceOf(received: any, expectedCtor: any) {
-                const passOriginal = received instanceof expectedCtor;
-
-                // Special-case: the test-suite wraps Promise-return into an object
-                //   { result: Promise, duration: number }
-                // We treat such objects as Promise-like for assertion purposes.
-                const isWrappedPromise =
-                  !passOriginal &&
-                  expectedCtor === Promise &&
-                  received &&
-                  typeof received === "object" &&
-                  received.result instanceof Promise;
-
-                return {
-                  pass: passOriginal || isWrappedPromise,
-                  message: () =>
-                    `expected value to be instance of ${expectedCtor.name}, received ${JSON.stringify(received)}`,
-                };
-              },
-            });
-          }
-          (globalThis as any).__SC_EXPECT_PATCH__ = true;
-        }
-      }
-    }
-
-    const aliasClass = `sc-${className}`;
-
-    if (!document.getElementById(className)) {
-      const style = document.createElement("style");
-      style.id = className;
-
-      const generateRule = (cls: string) => `.${cls} { ${cssString} }`;
-
-      // import.meta is not available in all environments
-      const IS_DEV = typeof import.meta !== 'undefined' && import.meta.env?.MODE === 'development';
-      if (IS_DEV) {
-        // If the rule contains nested selectors or at-rules that JSDOM will choke on,
-        // wrap in comment but still include alias for simple selectors.
-        const containsComplex = /[&@]/.test(cssString);
-        if (containsComplex) {
-          style.textContent = `/* ${cssString} */`;
-        } else {
-          style.textContent = `${generateRule(className)}\n${generateRule(aliasClass)}`;
-        }
-      } else {
-        const processed = cssString.replace(/&/g, `.${className}`);
-        style.textContent = `${generateRule(className)}\n.${aliasClass} { ${processed} }`;
-      }
-
-      document.head.appendChild(style);
-    }
+    injectRules(className, toClassRules(className, cssString));
 
     return className;
   };
@@ -565,33 +423,22 @@ if (!isServer) {
 
     const name = toHash(keyframeString);
 
-    if (!document.getElementById(`kf-${name}`)) {
-      const style = document.createElement("style");
-      style.id = `kf-${name}`;
-      style.textContent = `@keyframes ${name} { ${keyframeString} }`;
-      document.head.appendChild(style);
-    }
+    injectRules(`kf-${name}`, [`@keyframes ${name} { ${keyframeString} }`]);
 
     return name;
   };
 
-  createGlobalStyles = (strings: TemplateStringsArray, ...args: CssArg[]): any => {
-    // Check if any args are functions (dynamic values)
-    const hasDynamicValues = args.some(arg => typeof arg === 'function');
-    
-    // If no dynamic values, use traditional approach
-    if (!hasDynamicValues) {
-      const safeArgs = args.map(safeArg);
-      const globalString = strings.reduce(
-        (acc, value, i) => acc + value + (i < safeArgs.length ? String(safeArgs[i]) : ""),
-        ""
-      );
+  createGlobalStyles = (strings: TemplateStringsArray, ...args: GlobalStylesArg[]): any => {
+    const { cssText, variables } = globalStylesTemplate(strings, args);
 
+    // If no dynamic values, use traditional approach
+    if (variables.length === 0) {
+      const globalString = cssText;
       const id = toHash(globalString);
       const styleId = `global-${id}`;
 
       let styleEl: HTMLStyleElement | null = null;
-      if (!isServer && !document.getElementById(styleId)) {
+      if (!isServer && !document.getElementById(styleId) && !isHydratedStyle(styleId)) {
         styleEl = document.createElement("style");
         styleEl.id = styleId;
         // import.meta is not available in all environments
@@ -610,6 +457,7 @@ if (!isServer) {
       }
 
       const GlobalComponent: Component<Record<string, unknown>> = () => {
+        useTargetGlobalStyles(styleId, globalString);
         onCleanup(() => {
           const el = document.getElementById(styleId);
           el?.remove();
@@ -625,21 +473,12 @@ if (!isServer) {
     }
 
     // ZERO-RUNTIME MODE: Use CSS variables for dynamic values
-    const varNames: string[] = [];
-    const staticTemplate = strings.reduce((acc, str, i) => {
-      if (i < args.length && typeof args[i] === 'function') {
-        const varName = `--global-var-${i}`;
-        varNames.push(varName);
-        return acc + str + `var(${varName})`;
-      }
-      return acc + str + (i < args.length ? String(safeArg(args[i])) : "");
-    }, "");
-
+    const staticTemplate = cssText;
     const id = toHash(staticTemplate);
     const styleId = `global-${id}`;
 
     // Create static style with CSS variables (ZERO-RUNTIME)
-    if (!isServer && !document.getElementById(styleId)) {
+    if (!isServer && !document.getElementById(styleId) && !isHydratedStyle(styleId)) {
       const styleEl = document.createElement("style");
       styleEl.id = styleId;
       styleEl.textContent = `/* global-styles (zero-runtime) */\n${staticTemplate}`;
@@ -649,32 +488,37 @@ if (!isServer) {
     }
 
     const GlobalComponent: Component<Record<string, unknown>> = (props: any) => {
+      useTargetGlobalStyles(styleId, staticTemplate);
+
+      // Dynamic values see the nearest ThemeProvider's theme, like styled interpolations
+      const theme = useTheme();
+      const styleProps = mergeProps(
+        {
+          get theme() {
+            return theme();
+          },
+        },
+        props
+      );
+
       // Update CSS variables on mount and when props change
       onMount(() => {
-        varNames.forEach((varName, i) => {
-          const arg = args[i];
-          if (typeof arg === 'function') {
-            const value = (arg as (props: unknown) => unknown)(props);
-            document.documentElement.style.setProperty(varName, String(value));
-          }
+        variables.forEach(({ name, value }) => {
+          document.documentElement.style.setProperty(name, String(value(styleProps)));
         });
       });
 
       // Track changes
       createEffect(() => {
-        varNames.forEach((varName, i) => {
-          const arg = args[i];
-          if (typeof arg === 'function') {
-            const value = (arg as (props: unknown) => unknown)(props);
-            document.documentElement.style.setProperty(varName, String(value));
-          }
+        variables.forEach(({ name, value }) => {
+          document.documentElement.style.setProperty(name, String(value(styleProps)));
         });
       });
 
       onCleanup(() => {
         // Remove CSS variables
-        varNames.forEach(varName => {
-          document.documentElement.style.removeProperty(varName);
+        variables.forEach(({ name }) => {
+          document.documentElement.style.removeProperty(name);
         });
         const el = document.getElementById(styleId);
         el?.remove();
@@ -699,54 +543,18 @@ if (!isServer) {
     (GlobalComponent as any).toString = () => id;
     (GlobalComponent as any).valueOf = () => id;
 
-    // Install expect .toMatch patch if not already present
-    if (typeof (globalThis as any).expect === "function" && !(globalThis as any).__SC_EXPECT_PATCH__) {
-      const jestExpect = (globalThis as any).expect;
-      if (jestExpect?.extend) {
-        jestExpect.extend({
-          toMatch(received: any, expected: any) {
-            const receivedStr = typeof received === "string" ? received : String(received);
-            const pass = receivedStr.match(expected) !== null;
-            return {
-              pass,
-              message: () => `expected \`${receivedStr}\` ${pass ? "not " : ""}to match ${expected.toString()}`,
-            };
-          },
-          toBeInstanceOf(received: any, expectedCtor: any) {
-            const passOriginal = received instanceof expectedCtor;
-
-            // Special-case: the test-suite wraps Promise-return into an object
-            //   { result: Promise, duration: number }
-            // We treat such objects as Promise-like for assertion purposes.
-            const isWrappedPromise =
-              !passOriginal &&
-              expectedCtor === Promise &&
-              received &&
-              typeof received === "object" &&
-              received.result instanceof Promise;
-
-            return {
-              pass: passOriginal || isWrappedPromise,
-              message: () =>
-                `expected value to be instance of ${expectedCtor.name}, received ${JSON.stringify(received)}`,
-            };
-          },
-        });
-      }
-      (globalThis as any).__SC_EXPECT_PATCH__ = true;
-    }
-
     return GlobalComponent;
   };
 } else {
   // For server-side rendering, implement CSS class tracking without DOM
   css = (strings: TemplateStringsArray, ...args: CssArg[]): string => {
-    const compiled = strings.reduce(
-      (acc, value, i) => acc + value + (i < args.length ? String(safeArg(args[i])) : ""),
-      ""
-    );
+    const compiled = interpolateCss(strings, args.map((a) => safeArg(a)));
     const className = toHash(compiled);
-    stylesMap.set(className, `.${className} { ${compiled} }`);
+    // Only module-scope classes can be variant styles; per-render ones would pile up across requests
+    if (!isRenderingInRegistry()) {
+      cssTextByClass.set(className, compiled);
+    }
+    registerStyle(className, toClassRules(className, compiled).join("\n"));
     return className;
   };
 
@@ -756,20 +564,17 @@ if (!isServer) {
       ""
     );
     const name = toHash(compiled);
-    stylesMap.set(name, `@keyframes ${name} { ${compiled} }`);
+    // Same id as the client's <style>, so hydration can match it
+    registerStyle(`kf-${name}`, `@keyframes ${name} { ${compiled} }`);
     return name;
   };
 
-  createGlobalStyles = (strings: TemplateStringsArray, ...args: CssArg[]): any => {
-    const safeArgs = args.map(safeArg);
-
-    const globalString = strings.reduce(
-      (acc, value, i) => acc + value + (i < safeArgs.length ? String(safeArgs[i]) : ""),
-      ""
-    );
+  createGlobalStyles = (strings: TemplateStringsArray, ...args: GlobalStylesArg[]): any => {
+    const { cssText: globalString, variables } = globalStylesTemplate(strings, args);
 
     const id = toHash(globalString);
     const styleId = `global-${id}`;
+    registerStyle(styleId, globalString);
 
     let styleEl: HTMLStyleElement | null = null;
     if (!isServer && !document.getElementById(styleId)) {
@@ -791,7 +596,15 @@ if (!isServer) {
       document.head.appendChild(styleEl);
     }
 
-    const GlobalComponent: Component<Record<string, unknown>> = () => {
+    const GlobalComponent: Component<Record<string, unknown>> = (props) => {
+      // Values of the dynamic arguments for this render, with the props and theme the client uses
+      if (variables.length > 0) {
+        const styleProps = { ...props, theme: useTheme()() };
+        const declarations = variables.map(({ name, value }) => `${name}: ${safeArg(value, styleProps)};`);
+        const rule = `:root { ${declarations.join(" ")} }`;
+        registerStyle(`${styleId}-vars-${toHash(rule)}`, rule);
+      }
+
       onCleanup(() => {
         const el = document.getElementById(styleId);
         el?.remove();
@@ -802,43 +615,6 @@ if (!isServer) {
     (GlobalComponent as any).toString = () => id;
     (GlobalComponent as any).valueOf = () => id;
 
-    // Install expect .toMatch patch if not already present
-    if (typeof (globalThis as any).expect === "function" && !(globalThis as any).__SC_EXPECT_PATCH__) {
-      const jestExpect = (globalThis as any).expect;
-      if (jestExpect?.extend) {
-        jestExpect.extend({
-          toMatch(received: any, expected: any) {
-            const receivedStr = typeof received === "string" ? received : String(received);
-            const pass = receivedStr.match(expected) !== null;
-            return {
-              pass,
-              message: () => `expected \`${receivedStr}\` ${pass ? "not " : ""}to match ${expected.toString()}`,
-            };
-          },
-          toBeInstanceOf(received: any, expectedCtor: any) {
-            const passOriginal = received instanceof expectedCtor;
-
-            // Special-case: the test-suite wraps Promise-return into an object
-            //   { result: Promise, duration: number }
-            // We treat such objects as Promise-like for assertion purposes.
-            const isWrappedPromise =
-              !passOriginal &&
-              expectedCtor === Promise &&
-              received &&
-              typeof received === "object" &&
-              received.result instanceof Promise;
-
-            return {
-              pass: passOriginal || isWrappedPromise,
-              message: () =>
-                `expected value to be instance of ${expectedCtor.name}, received ${JSON.stringify(received)}`,
-            };
-          },
-        });
-      }
-      (globalThis as any).__SC_EXPECT_PATCH__ = true;
-    }
-
     return GlobalComponent;
   };
 }
@@ -852,12 +628,52 @@ export { createSpring };
 // Import the enhanced elements for convenience
 export { enhanced } from "./enhancedStyled";
 
+// Per-request collection of server-rendered styles
+export { createStyleRegistry, StyleRegistryProvider } from "./style-registry";
+export type { StyleRegistry, StyleRegistryProviderProps, StyleStreamWritable } from "./style-registry";
+
+// Styles of components rendered inside shadow roots
+export { StyleTarget } from "./style-sheet";
+export type { StyleTargetProps } from "./style-sheet";
+
+// Theme context consumed by styled interpolations
+export {
+  ThemeProvider,
+  useTheme,
+  mergeThemes,
+  type DefaultTheme,
+  type DeepPartial,
+  type Theme,
+  type ThemeProviderProps,
+  type ThemeTokenPath,
+  type ThemeVariablesOptions,
+} from "./theming";
+
+// Style objects accepted by styled.tag({ ... })
+export type { CSSObject, CSSValue } from "./object-styles";
+
+// Variant config accepted by styled.tag.variants({ ... })
+export type {
+  CompoundVariant,
+  VariantDefinitions,
+  VariantProps,
+  VariantsConfig,
+  VariantStyle,
+} from "./variants";
+
 /**
  * A cache to store styled components
  * This prevents recreating the same component multiple times
  */
 const cache = new Map<string, Component<any>>();
 
+/**
+ * Number of uncached components defined so far. Salts their component ids, since
+ * components sharing a template can still differ in attrs or captured values.
+ * Definition order is the same on the server and the client, so ids still match.
+ */
+let uncachedDefinitions = 0;
+
 /**
  * Separate cache for base components (without animation detection)
  * Used when wrapping with animated() to avoid recursion
@@ -966,16 +782,79 @@ const isAnimatedComponent = (component: any): boolean => {
   );
 };
 
+/**
+ * Prop a styled wrapper sets when rendering the styled component it extends.
+ * The wrapper has already resolved the whole `.attrs()` chain (inner first, so
+ * outer attrs win), which tells the inner component not to apply its own again.
+ */
+const ATTRS_RESOLVED_PROP = "__styledAttrsResolved";
+
+/**
+ * Get the `.attrs()` chain of a styled component, empty for anything else
+ */
+const getAttrsChain = (component: any): StyledAttrs[] =>
+  isStyledComponent(component) ? component.__styledAttrs : [];
+
+/**
+ * Transient props (`$variant`) only feed styles and are never rendered as attributes
+ */
+const isTransientProp = (key: string): boolean => key.startsWith("$");
+
+/**
+ * Drop the props that must not reach the rendered target: transient props (unless
+ * the target is a styled component that reads them) and whatever `shouldForwardProp`
+ * rejects. Returns the props untouched when nothing is dropped, to keep them reactive.
+ */
+const filterForwardedProps = (
+  props: Record<string, any>,
+  target: any,
+  shouldForwardProp?: StyledConfig["shouldForwardProp"]
+): Record<string, any> => {
+  const keepTransient = isStyledComponent(target);
+  const dropped = Object.keys(props).filter(
+    (key) => (!keepTransient && isTransientProp(key)) || (shouldForwardProp ? !shouldForwardProp(key, target) : false)
+  );
+
+  return dropped.length > 0 ? splitProps(props, dropped)[1] : props;
+};
+
+/**
+ * Merge the results of an `.attrs()` chain over the incoming props.
+ * Each entry sees the props merged with the attrs resolved before it, and the
+ * result stays reactive to the props it reads.
+ */
+const applyAttrs = (props: any, chain: StyledAttrs[], theme: Accessor<Theme>): any => {
+  if (chain.length === 0 || props[ATTRS_RESOLVED_PROP]) return props;
+
+  return mergeProps(props, () => {
+    let resolved: Record<string, unknown> = {};
+    for (const attrs of chain) {
+      const attrsProps = mergeProps(
+        {
+          get theme() {
+            return theme();
+          },
+        },
+        props,
+        resolved
+      );
+      resolved = { ...resolved, ...(typeof attrs === "function" ? attrs(attrsProps) : attrs) };
+    }
+    return resolved;
+  });
+};
+
 /**
  * Creates a base styled component without animation capabilities
  * Used internally by both standard and animated styled components
  */
 const createBaseStyledComponent = (tag: any, strings: TemplateStringsArray, args: CssArg[]) => {
   // Generate a key for this styled component
-  const key = typeof tag === "string" ? tag + "__BASE__" + strings.join("").trim() : "__BASE__" + strings.join("").trim();
+  const key = (typeof tag === "string" ? tag : "") + "__BASE__" + templateIdentity(strings, args);
+  const cacheable = !hasPropFunctions(args);
   
   // Check base component cache first (separate from regular cache)
-  const cachedComponent = baseComponentCache.get(key);
+  const cachedComponent = cacheable ? baseComponentCache.get(key) : undefined;
   if (cachedComponent) {
     return cachedComponent;
   }
@@ -1021,7 +900,7 @@ const createBaseStyledComponent = (tag: any, strings: TemplateStringsArray, args
 
     return createComponent(Dynamic, {
       component: componentToRender,
-      ...rest,
+      ...filterForwardedProps(rest, componentToRender),
       class: finalClassName,
       style: finalStyle,
       ref: local.ref,
@@ -1029,21 +908,58 @@ const createBaseStyledComponent = (tag: any, strings: TemplateStringsArray, args
   };
   
   // Cache in base component cache (separate from main cache to avoid recursion)
-  baseComponentCache.set(key, BaseStyledComponent);
+  if (cacheable) {
+    baseComponentCache.set(key, BaseStyledComponent);
+  }
   return BaseStyledComponent;
 };
+// Wrap a template in `@layer <layer> { ... }`, keeping its interpolations in place
+const toLayeredTemplate = (strings: TemplateStringsArray, layer?: string): TemplateStringsArray => {
+  if (!layer) return strings;
+
+  const parts = [...strings];
+  parts[0] = `@layer ${layer} { ${parts[0]}`;
+  parts[parts.length - 1] += " }";
+  return toTemplateStrings(parts);
+};
+
 /**
  * Creates a styled component with Lightning CSS optimization and automatic animation detection
  *
  * @param tag HTML tag or component to style
  * @returns A function that accepts template literals
  */
-function styled(tag: any) {
-  return (strings: TemplateStringsArray, ...args: CssArg[]) => {
-    // Generate a key for this styled component
-    const key = typeof tag === "string" ? tag + strings.join("").trim() : strings.join("").trim();
+function styled(
+  tag: any,
+  attrsChain: StyledAttrs[] = [],
+  config: StyledConfig = {},
+  variantsConfig?: VariantsConfig<VariantDefinitions>
+) {
+  // Extending a styled component resolves its attrs here, before our own
+  const fullAttrsChain = [...getAttrsChain(tag), ...attrsChain];
+
+  const defineStyled = (styles: TemplateStringsArray | StyleObjectInput, ...templateArgs: CssArg[]) => {
+    // Object styles are serialized into the template form, so both share hashing, SSR and caching
+    const [templateStrings, args] = toTemplateStyles(styles, templateArgs) as [TemplateStringsArray, CssArg[]];
+
+    // The layer wraps the template, so it is part of the generated CSS, its hash and the cache key
+    const layer = config.layer ?? defaultLayer;
+    const strings = toLayeredTemplate(templateStrings, layer);
 
-    const cachedComponent = cache.get(key);
+    // Generate a key for this styled component
+    const identity = templateIdentity(strings, args);
+    const key = typeof tag === "string" ? tag + identity : identity;
+
+    // Attrs, config, variants and function styles are not part of the key, so those components are never cached
+    const cacheable =
+      attrsChain.length === 0 &&
+      !config.shouldForwardProp &&
+      !config.componentId &&
+      !config.displayName &&
+      !variantsConfig &&
+      typeof styles !== "function" &&
+      !hasPropFunctions(args);
+    const cachedComponent = cacheable ? cache.get(key) : undefined;
 
     if (cachedComponent) {
       return cachedComponent;
@@ -1056,8 +972,40 @@ function styled(tag: any) {
       loadAnimationSystem();
     }
     
+    // Stable class on every instance, targeted by `${Component}` selectors in other templates.
+    // The build plugin sets componentId so extracted CSS can reference it too.
+    const componentId =
+      config.componentId ?? hashString(cacheable ? `component:${key}` : `component:${key}:${uncachedDefinitions++}`);
+    const componentClass = componentClassName(componentId, namespace);
+
+    // Development builds add a readable `Button__sc-<id>` class to find the component in devtools
+    const instanceClass =
+      process.env.NODE_ENV === "development" && config.displayName
+        ? `${componentClass} ${componentLabelClassName(config.displayName, componentId, namespace)}`
+        : componentClass;
+
+    // Variant props select classes; they only reach the target if it is a styled component
+    const variantNames = variantsConfig ? Object.keys(variantsConfig.variants) : [];
+
+    // Build-time class when the resolver has one, otherwise the variant's runtime class.
+    // The key comment keeps variant rules apart from identical base rules, so they are
+    // injected after the base styles they override.
+    const toVariantClass = (variantKey: string, style: VariantStyle): string => {
+      const staticClass = config.componentId ? resolveVariantToClass(config.componentId, variantKey) : null;
+      if (staticClass) return staticClass;
+
+      const text = typeof style === "string" ? cssTextByClass.get(style) ?? style : objectToCss(style);
+      return css(toTemplateStrings([`/* ${variantKey} */ ${wrapInLayer(text, layer)}`]));
+    };
+
     // ======= STANDARD STYLED COMPONENT =======
-    const StyledComponent = (props: any) => {
+    const StyledComponent = (ownProps: any) => {
+      // Interpolations and attrs see the nearest ThemeProvider's theme unless one is passed explicitly.
+      const theme = useStyleTheme();
+
+      // .attrs() results override the props they were derived from
+      const props = applyAttrs(ownProps, fullAttrsChain, theme);
+
       // ======= AUTOMATIC ANIMATION DETECTION =======
       // Skip animation detection on server-side
       if (!isServer && hasAnimationProps(props)) {
@@ -1070,7 +1018,14 @@ function styled(tag: any) {
           const BaseComponent = createBaseStyledComponent(tag, strings, args);
           const AnimatedComponent = animatedWrapper(BaseComponent);
           // Render with all props (animated() will handle animation props)
-          return createComponent(AnimatedComponent, props);
+          return createComponent(
+            AnimatedComponent,
+            mergeProps(props, {
+              get class() {
+                return [instanceClass, props.class].filter(Boolean).join(" ");
+              },
+            })
+          );
         } else {
           // Animation system not loaded yet - render without animations for now
           // The loadAnimationSystem() call above will load it for next render
@@ -1088,11 +1043,20 @@ function styled(tag: any) {
       
       // ======= STANDARD STYLED COMPONENT PATH (No Animations) =======
       // Split out the props that Solid Styles handles internally.
-      const [local, rest] = splitProps(props, ["as", "class", "className", "style", "ref"]);
+      const [local, rest] = splitProps(props, ["as", "class", "className", "style", "ref", ATTRS_RESOLVED_PROP]);
 
       // Determine the component to render. Use the `as` prop if it's provided, otherwise fall back to the original tag.
       const componentToRender = local.as || tag;
 
+      const styleProps = mergeProps(
+        {
+          get theme() {
+            return theme();
+          },
+        },
+        rest
+      );
+
       // --- Class Name and Style Generation ---
       // Only log in development mode, not in tests
       // Processing styles
@@ -1105,14 +1069,16 @@ function styled(tag: any) {
         // Error resolving static class, falling back to css()
       }
 
-    const rawClassName = staticClassName ?? css(strings, ...args);
+    // Re-evaluated whenever a prop or the theme read by an interpolation changes; the
+    // element itself is kept and only its class is swapped.
+    const rawClassName = createMemo(() => staticClassName ?? css(strings, ...resolveInterpolations(args, styleProps)));
     // Class name generated
 
       // Tests for the enhanced API expect Styled Components' class names to start with `sc-`.
       // We therefore expose a *public* class name with that prefix while keeping the raw class
       // name (used inside the generated <style>) intact.  This does not impact selector matching
       // because we attach **both** class names to the element.
-      const finalClassName = `sc-${rawClassName}`;
+      const finalClassName = () => `sc-${rawClassName()}`;
 
       let cssVariables: Record<string, string> = {};
       if (!staticClassName) {
@@ -1125,10 +1091,18 @@ function styled(tag: any) {
       }
       }
 
+      // Created after rawClassName so runtime variant rules follow the base rule
+      const variantClassName = createMemo(() =>
+        variantsConfig ? resolveVariantClasses(variantsConfig, rest, toVariantClass).join(" ") : ""
+      );
+
       // --- Prop Merging ---
 
       // Combine the generated class with any class passed by the user.
-      const mergedClassName = [rawClassName, finalClassName, local.class, local.className].filter(Boolean).join(" ");
+      const mergedClassName = () =>
+        [rawClassName(), finalClassName(), instanceClass, variantClassName(), local.class, local.className]
+          .filter(Boolean)
+          .join(" ");
 
       // Create a ref handler that applies CSS variables and calls the user's ref.
       const handleRef = (el: HTMLElement) => {
@@ -1144,16 +1118,30 @@ function styled(tag: any) {
         if (typeof local.ref === "function") local.ref(el);
       };
 
-      // Filter props if a property filter is configured.
-      const filteredProps = propertyFilter ? propertyFilter(rest) : rest;
+      const forwardedProps =
+        variantNames.length > 0 && !isStyledComponent(componentToRender) ? splitProps(rest, variantNames)[1] : rest;
+
+      // Filter props with the component's shouldForwardProp, or the global filter if configured.
+      const filteredProps = filterForwardedProps(
+        config.shouldForwardProp || !propertyFilter ? forwardedProps : propertyFilter(forwardedProps),
+        componentToRender,
+        config.shouldForwardProp
+      );
 
-      const mergedProps = mergeProps(filteredProps, {
-        get class() {
-          return mergedClassName;
+      // The extended styled component must not re-apply attrs we already resolved
+      const attrsResolved = componentToRender === tag && getAttrsChain(tag).length > 0;
+
+      const mergedProps = mergeProps(
+        filteredProps,
+        {
+          get class() {
+            return mergedClassName();
+          },
+          style: local.style,
+          ref: handleRef,
         },
-        style: local.style,
-        ref: handleRef,
-      });
+        attrsResolved ? { [ATTRS_RESOLVED_PROP]: true } : {}
+      );
 
       // --- Rendering ---
 
@@ -1162,32 +1150,60 @@ function styled(tag: any) {
       // automatically track any signal-based expressions passed as children
       // and update the DOM when they change.
 
-      return createComponent(Dynamic, {
-        component: componentToRender,
-        ...mergedProps,
-      });
+      // mergeProps (rather than an object spread) keeps the `class` getter live.
+      return createComponent(Dynamic, mergeProps({ component: componentToRender }, mergedProps));
     };
 
+    // Expose the attrs chain so styled(StyledComponent) can resolve it
+    (StyledComponent as any).__styledAttrs = fullAttrsChain;
+
+    // Interpolating the component gives its selector, as in styled-components
+    StyledComponent.toString = () => `.${componentClass}`;
+
     // Cache the component for future use
-    cache.set(key, StyledComponent as Component<any>);
+    if (cacheable) {
+      cache.set(key, StyledComponent as Component<any>);
+    }
 
     return StyledComponent as Component<any>;
   };
+
+  // Chainable: styled.button.attrs({ type: "button" }).attrs((props) => ({ ... }))`...`
+  defineStyled.attrs = (attrs: StyledAttrs) => styled(tag, [...attrsChain, attrs], config, variantsConfig);
+
+  // Chainable: styled.button.withConfig({ shouldForwardProp: (prop) => prop !== "size" })`...`
+  defineStyled.withConfig = (nextConfig: StyledConfig) =>
+    styled(tag, attrsChain, { ...config, ...nextConfig }, variantsConfig);
+
+  // Chainable: styled.button.variants({ variants: { size: { sm: {...} } }, defaultVariants: { size: "sm" } })`...`
+  defineStyled.variants = (nextVariants: VariantsConfig<VariantDefinitions>) =>
+    styled(tag, attrsChain, config, nextVariants);
+
+  return defineStyled;
+}
+
+/**
+ * Extract the CSS of extractCss() as a `<style>` tag for the document head. The
+ * tag lists the ids of its rules, so the client reuses them during hydration
+ * instead of injecting them again.
+ *
+ * @returns `<style data-ss="...">` tag, or an empty string
+ */
+export function extractStyleTags(): string {
+  return isServer ? getSharedStyleTags() : "";
 }
 
 /**
  * Extract CSS for server-side rendering
- * Returns all CSS registered during SSR
+ * Returns the CSS registered during SSR outside any StyleRegistryProvider;
+ * use a registry per request to collect the styles of concurrent renders.
  *
  * @returns Concatenated CSS string of all styles
  */
 export function extractCss(): string {
   if (isServer) {
-    if (stylesMap.size === 0) {
-      return "";
-    }
-    const allStyles = Array.from(stylesMap.values()).join("\n");
-    return allStyles;
+    // The layer order comes first, as it does in the client's <head>
+    return getSharedCss();
   }
   return "";
 }
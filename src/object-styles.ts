@@ -0,0 +1,159 @@
+/**
+ * Object Styles
+ *
+ * Serializes style objects (`styled.div({ color: "red" })`) into the same CSS text
+ * a template literal produces, so both syntaxes share hashing, SSR and extraction.
+ */
+
+import { splitSelectorList } from "./css-compiler";
+
+/**
+ * Value of a single declaration. `null`, `undefined` and `false` skip it, and an
+ * array emits one declaration per entry (useful for fallbacks).
+ */
+export type CSSValue = string | number | null | undefined | false;
+
+/**
+ * Style object: camelCase or kebab-case properties, custom properties, nested
+ * selectors (`"&:hover"`, `":focus"`, `"> span"`) and at-rules (`"@media ..."`)
+ */
+export interface CSSObject {
+  [key: string]: CSSValue | CSSValue[] | CSSObject;
+}
+
+// Properties whose numeric values are not lengths, so no `px` is appended
+const UNITLESS_PROPERTIES = new Set([
+  "animation-iteration-count",
+  "aspect-ratio",
+  "border-image-outset",
+  "border-image-slice",
+  "border-image-width",
+  "column-count",
+  "columns",
+  "fill-opacity",
+  "flex",
+  "flex-grow",
+  "flex-shrink",
+  "flood-opacity",
+  "font-weight",
+  "grid-area",
+  "grid-column",
+  "grid-column-end",
+  "grid-column-start",
+  "grid-row",
+  "grid-row-end",
+  "grid-row-start",
+  "line-clamp",
+  "line-height",
+  "opacity",
+  "order",
+  "orphans",
+  "scale",
+  "stop-opacity",
+  "stroke-dashoffset",
+  "stroke-miterlimit",
+  "stroke-opacity",
+  "stroke-width",
+  "tab-size",
+  "widows",
+  "z-index",
+  "zoom",
+]);
+
+/**
+ * Convert a camelCase property to its CSS name (`WebkitBoxShadow` → `-webkit-box-shadow`)
+ */
+export function toCssProperty(key: string): string {
+  if (key.startsWith("--") || key.includes("-")) return key;
+
+  const kebab = key.replace(/[A-Z]/g, (letter) => `-${letter.toLowerCase()}`);
+  // `msTransform` has a lowercase vendor prefix but still needs the leading dash
+  return kebab.startsWith("ms-") ? `-${kebab}` : kebab;
+}
+
+// Vendor-prefixed properties (`-webkit-line-clamp`) share the unitless list
+const formatValue = (property: string, value: string | number): string =>
+  typeof value === "number" &&
+  value !== 0 &&
+  !property.startsWith("--") &&
+  !UNITLESS_PROPERTIES.has(property.replace(/^-[a-z]+-/, ""))
+    ? `${value}px`
+    : String(value);
+
+// Nested keys without `&` refer to the component itself (`":hover"`) or its descendants (`"> span"`).
+// Each selector of a list (`":hover, :focus"`) is prefixed on its own.
+const toNestedSelector = (key: string): string =>
+  splitSelectorList(key)
+    .map((part) => {
+      const selector = part.trim();
+      if (selector.includes("&")) return selector;
+      return selector.startsWith(":") ? `&${selector}` : `& ${selector}`;
+    })
+    .join(", ");
+
+const isNestedStyles = (value: unknown): value is CSSObject =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Serialize a style object into CSS text with `&` nesting and nested at-rules,
+ * matching what the equivalent template literal contains.
+ *
+ * @example
+ * ```ts
+ * objectToCss({ fontSize: 14, "&:hover": { color: "blue" } });
+ * // "font-size: 14px; &:hover { color: blue; }"
+ * ```
+ */
+export function objectToCss(styles: CSSObject): string {
+  const declarations: string[] = [];
+  const blocks: string[] = [];
+
+  for (const [key, value] of Object.entries(styles)) {
+    if (isNestedStyles(value)) {
+      const selector = key.startsWith("@") ? key : toNestedSelector(key);
+      blocks.push(`${selector} { ${objectToCss(value)} }`);
+      continue;
+    }
+
+    const property = toCssProperty(key);
+    const values = Array.isArray(value) ? value : [value];
+
+    for (const item of values) {
+      if (item === null || item === undefined || item === false) continue;
+      declarations.push(`${property}: ${formatValue(property, item)};`);
+    }
+  }
+
+  // Declarations first, so nested rules come after the rule they belong to
+  return [...declarations, ...blocks].join(" ");
+}
+
+/**
+ * Styles accepted by `styled.tag(...)` in place of a template literal
+ */
+export type StyleObjectInput<P = any> = CSSObject | ((props: P) => CSSObject | null | undefined | false);
+
+/**
+ * Build a TemplateStringsArray, so generated CSS can be passed to css()
+ */
+export const toTemplateStrings = (parts: string[]): TemplateStringsArray =>
+  Object.assign([...parts], { raw: [...parts] }) as unknown as TemplateStringsArray;
+
+/**
+ * Turn object styles into the template form the styled pipeline expects. A static
+ * object becomes plain CSS text; a function becomes a single interpolation that is
+ * evaluated with the render-time props like any other.
+ */
+export function toTemplateStyles<A>(
+  styles: TemplateStringsArray | StyleObjectInput,
+  args: A[]
+): [TemplateStringsArray, Array<A | ((props: any) => string)>] {
+  if (Array.isArray(styles)) return [styles as TemplateStringsArray, args];
+
+  if (typeof styles === "function") {
+    const interpolation = (props: any) => objectToCss(styles(props) || {});
+    return [toTemplateStrings(["", ""]), [interpolation]];
+  }
+
+  return [toTemplateStrings([objectToCss(styles as CSSObject)]), []];
+}
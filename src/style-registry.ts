@@ -0,0 +1,255 @@
+/**
+ * Style Registry
+ *
+ * Collects the CSS generated while rendering on the server. Each request renders
+ * inside its own registry, so concurrent renders never see each other's styles
+ * and nothing outlives the request. Rules generated outside any registry (module
+ * scope `css`, `keyframes` and global styles) do not depend on the request and
+ * are shared by every registry.
+ *
+ * Server `<style>` tags list the ids of their rules in `data-ss`, so the client
+ * runtime reuses them instead of injecting the same rules again.
+ */
+
+import { JSX, createComponent, createContext, useContext } from "solid-js";
+import { isServer, ssr, useAssets } from "solid-js/web";
+
+/**
+ * Writable a streamed render is piped into, e.g. a Node response
+ */
+export interface StyleStreamWritable {
+  write(chunk: string): unknown;
+  end(): unknown;
+}
+
+/**
+ * Rules collected for one server render
+ */
+export interface StyleRegistry {
+  /**
+   * CSS of every rule, shared rules first
+   */
+  getCss(): string;
+  /**
+   * Every rule in a `<style>` tag, for renders that are not streamed
+   */
+  getStyleTags(): string;
+  /**
+   * `<style>` tag holding the rules added since the previous flush, or `""`
+   */
+  flush(): string;
+  /**
+   * Wrap the writable a stream is piped into, so every chunk is preceded by the
+   * rules registered while it rendered
+   */
+  wrapWritable(writable: StyleStreamWritable): StyleStreamWritable;
+  /**
+   * Forget every rule and flush, so the registry can serve another render
+   */
+  reset(): void;
+}
+
+interface RegistryState {
+  rules: Map<string, string>;
+  flushed: Set<string>;
+}
+
+const sharedRules = new Map<string, string>();
+
+// Statements that must precede every rule, such as the cascade layer order
+let prelude = "";
+
+const StyleRegistryContext = createContext<RegistryState | undefined>(undefined);
+
+const registryStates = new WeakMap<StyleRegistry, RegistryState>();
+
+/**
+ * Attribute listing the ids of the rules in a server-rendered `<style>` (`data-ss="bau1 kf-bau2"`)
+ */
+export const SSR_STYLE_ATTRIBUTE = "data-ss";
+
+// A `</style>` inside a rule would end the tag early
+const toStyleTag = (css: string, ids: string[]): string =>
+  css ? `<style ${SSR_STYLE_ATTRIBUTE}="${ids.join(" ")}">${css.replace(/<\/style/gi, "<\\/style")}</style>` : "";
+
+/**
+ * Create a registry for one server render
+ *
+ * @example
+ * ```tsx
+ * const registry = createStyleRegistry();
+ * const stream = renderToStream(() => (
+ *   <StyleRegistryProvider registry={registry}>
+ *     <App />
+ *   </StyleRegistryProvider>
+ * ));
+ * stream.pipe(registry.wrapWritable(res));
+ * ```
+ */
+export function createStyleRegistry(): StyleRegistry {
+  const state: RegistryState = { rules: new Map(), flushed: new Set() };
+
+  const entries = (): Array<[string, string]> => {
+    const all = new Map([...sharedRules, ...state.rules]);
+    return Array.from(all);
+  };
+
+  const registry: StyleRegistry = {
+    getCss() {
+      return [prelude, ...entries().map(([, rule]) => rule)].filter(Boolean).join("\n");
+    },
+
+    getStyleTags() {
+      return toStyleTag(
+        registry.getCss(),
+        entries().map(([id]) => id)
+      );
+    },
+
+    flush() {
+      const pending = entries().filter(([id]) => !state.flushed.has(id));
+      if (pending.length === 0) return "";
+
+      const isFirstFlush = state.flushed.size === 0;
+      pending.forEach(([id]) => state.flushed.add(id));
+
+      const rules = pending.map(([, rule]) => rule);
+      return toStyleTag(
+        (isFirstFlush && prelude ? [prelude, ...rules] : rules).join("\n"),
+        pending.map(([id]) => id)
+      );
+    },
+
+    wrapWritable(writable) {
+      return {
+        write: (chunk: string) => writable.write(registry.flush() + chunk),
+        end: () => writable.end(),
+      };
+    },
+
+    reset() {
+      state.rules.clear();
+      state.flushed.clear();
+    },
+  };
+
+  registryStates.set(registry, state);
+  return registry;
+}
+
+/**
+ * Props for the StyleRegistryProvider component
+ */
+export interface StyleRegistryProviderProps {
+  registry: StyleRegistry;
+  children?: JSX.Element;
+}
+
+/**
+ * Collect the styles rendered below it into `registry`
+ *
+ * On the server the rules registered before the shell is sent are added to its
+ * `<head>`; later ones go out with the chunks written through `wrapWritable`.
+ * On the client it only renders its children.
+ */
+export function StyleRegistryProvider(props: StyleRegistryProviderProps): JSX.Element {
+  if (isServer) {
+    // Raw markup: a string would be escaped
+    useAssets(() => ssr(props.registry.flush()) as unknown as JSX.Element);
+  }
+
+  return createComponent(StyleRegistryContext.Provider, {
+    value: registryStates.get(props.registry),
+    get children() {
+      return props.children;
+    },
+  });
+}
+
+/**
+ * Record a rule generated on the server, in the registry of the render in
+ * progress or with the shared rules outside any provider
+ */
+export function registerStyle(id: string, rule: string): void {
+  const state = useContext(StyleRegistryContext);
+  (state ? state.rules : sharedRules).set(id, rule);
+}
+
+/**
+ * Whether the render in progress collects its styles into a registry
+ */
+export const isRenderingInRegistry = (): boolean => useContext(StyleRegistryContext) !== undefined;
+
+/**
+ * Set the statements emitted before every rule (the cascade layer order)
+ */
+export function setStylePrelude(css: string): void {
+  prelude = css;
+}
+
+/**
+ * CSS of the rules generated outside any registry, preceded by the prelude
+ */
+export function getSharedCss(): string {
+  return sharedRules.size === 0 ? "" : [prelude, ...sharedRules.values()].filter(Boolean).join("\n");
+}
+
+/**
+ * The shared rules in a `<style>` tag listing their ids
+ */
+export const getSharedStyleTags = (): string => toStyleTag(getSharedCss(), Array.from(sharedRules.keys()));
+
+// Rule ids found in server-rendered tags, read when the client first injects a rule
+let hydratedStyleIds: Set<string> | null = null;
+// Watches for tags a streamed response adds while the document loads
+let streamedTagObserver: MutationObserver | null = null;
+
+const readStyleTags = (node: Node): void => {
+  if (!(node instanceof Element)) return;
+  const selector = `style[${SSR_STYLE_ATTRIBUTE}]`;
+  const tags = node.matches(selector) ? [node] : Array.from(node.querySelectorAll(selector));
+
+  tags.forEach((style) => {
+    style
+      .getAttribute(SSR_STYLE_ATTRIBUTE)!
+      .split(/\s+/)
+      .filter(Boolean)
+      .forEach((ruleId) => hydratedStyleIds!.add(ruleId));
+  });
+};
+
+const readMutations = (records: MutationRecord[]): void =>
+  records.forEach((record) => record.addedNodes.forEach(readStyleTags));
+
+/**
+ * Whether the server already sent the rule with this id, so the client must not inject it
+ */
+export function isHydratedStyle(id: string): boolean {
+  if (!hydratedStyleIds) {
+    hydratedStyleIds = new Set();
+    readStyleTags(document.documentElement);
+
+    // Chunks of a streamed response bring more tags until the document has loaded
+    if (document.readyState !== "complete" && typeof MutationObserver !== "undefined") {
+      const observer = new MutationObserver(readMutations);
+      observer.observe(document, { childList: true, subtree: true });
+      streamedTagObserver = observer;
+      window.addEventListener(
+        "load",
+        () => {
+          readMutations(observer.takeRecords());
+          observer.disconnect();
+          streamedTagObserver = null;
+        },
+        { once: true }
+      );
+    }
+  }
+
+  // Tags parsed since the observer last delivered its records
+  if (!hydratedStyleIds.has(id) && streamedTagObserver) {
+    readMutations(streamedTagObserver.takeRecords());
+  }
+
+  return hydratedStyleIds.has(id);
+}
@@ -0,0 +1,209 @@
+/**
+ * Style Sheet
+ *
+ * Where the client runtime puts the rules it generates. By default every rule
+ * gets its own `<style id="...">` whose text can be read in devtools. Speedy mode
+ * keeps a single stylesheet and adds rules with `insertRule`, which is much
+ * cheaper for apps with thousands of components but leaves no text in the DOM.
+ *
+ * Components rendered below a `StyleTarget` inject into its shadow root instead,
+ * through a stylesheet of their own.
+ */
+
+import { JSX, createComponent, createContext, useContext } from "solid-js";
+import { isServer } from "solid-js/web";
+
+/**
+ * Attribute marking the `<style>` that holds speedy rules when constructable
+ * stylesheets are not supported
+ */
+export const SPEEDY_SHEET_ATTRIBUTE = "data-ss-speedy";
+
+/**
+ * Root a stylesheet injects into
+ */
+export type StyleRoot = Document | ShadowRoot;
+
+// Constructable stylesheets, adopted by the root instead of living in the DOM
+const supportsAdoptedSheets = (root: StyleRoot): boolean =>
+  "adoptedStyleSheets" in root && typeof CSSStyleSheet === "function" && "replaceSync" in CSSStyleSheet.prototype;
+
+/**
+ * Rules injected into one root, each under an id so it is injected only once
+ */
+export class StyleSheet {
+  private readonly root: StyleRoot;
+  /**
+   * Whether rules go through `insertRule` rather than readable `<style>` tags
+   */
+  readonly speedy: boolean;
+  // Speedy rules added under each id, so they can be removed again
+  private readonly inserted = new Map<string, CSSRule[]>();
+  private sheet: CSSStyleSheet | null = null;
+
+  constructor(root: StyleRoot, speedy: boolean = false) {
+    this.root = root;
+    this.speedy = speedy;
+  }
+
+  /**
+   * Whether the rules with this id are already in the root
+   */
+  has(id: string): boolean {
+    // Readable rules are injected again if their <style> was removed from the DOM
+    return this.speedy ? this.inserted.has(id) : this.root.getElementById(id) !== null;
+  }
+
+  /**
+   * Add top-level rules under `id`, unless they were added before
+   */
+  insert(id: string, rules: string[]): void {
+    if (this.has(id)) return;
+
+    if (!this.speedy) {
+      const style = document.createElement("style");
+      style.id = id;
+      style.textContent = rules.join("\n");
+      this.container().appendChild(style);
+      return;
+    }
+
+    const sheet = this.getSheet();
+    const added: CSSRule[] = [];
+    for (const rule of rules) {
+      try {
+        const index = sheet.insertRule(rule, sheet.cssRules.length);
+        added.push(sheet.cssRules[index]);
+      } catch (error) {
+        // One rule the browser rejects (an unknown pseudo-class, say) must not drop the rest
+        console.warn("[SOLID-STYLES] Failed to insert rule:", rule, error);
+      }
+    }
+    this.inserted.set(id, added);
+  }
+
+  /**
+   * Remove the rules added under `id`
+   */
+  remove(id: string): void {
+    const added = this.inserted.get(id);
+    this.inserted.delete(id);
+
+    if (!this.speedy) {
+      this.root.getElementById(id)?.remove();
+      return;
+    }
+
+    // Indexes shift as rules are deleted, so look each one up again
+    const sheet = this.getSheet();
+    added?.forEach((rule) => {
+      const index = Array.from(sheet.cssRules).indexOf(rule);
+      if (index !== -1) sheet.deleteRule(index);
+    });
+  }
+
+  /**
+   * The stylesheet speedy rules go into, created on first use
+   */
+  getSheet(): CSSStyleSheet {
+    if (this.sheet) return this.sheet;
+
+    if (supportsAdoptedSheets(this.root)) {
+      this.sheet = new CSSStyleSheet();
+      this.root.adoptedStyleSheets = [...this.root.adoptedStyleSheets, this.sheet];
+    } else {
+      const style = document.createElement("style");
+      style.setAttribute(SPEEDY_SHEET_ATTRIBUTE, "");
+      this.container().appendChild(style);
+      this.sheet = style.sheet!;
+    }
+
+    return this.sheet;
+  }
+
+  // Element the `<style>` tags are appended to
+  private container(): Node {
+    return this.root instanceof Document ? this.root.head : this.root;
+  }
+}
+
+let documentSheet: StyleSheet | null = null;
+
+/**
+ * Switch the document between speedy and readable injection. Rules injected
+ * before the switch stay where they are.
+ */
+export function setSpeedyInjection(speedy: boolean): void {
+  if (getDocumentStyleSheet().speedy === speedy) return;
+  documentSheet = new StyleSheet(document, speedy);
+}
+
+/**
+ * The stylesheet of the document, readable unless speedy injection is on
+ */
+export function getDocumentStyleSheet(): StyleSheet {
+  if (!documentSheet) {
+    documentSheet = new StyleSheet(document);
+  }
+  return documentSheet;
+}
+
+const rootSheets = new WeakMap<StyleRoot, StyleSheet>();
+
+/**
+ * The stylesheet of a shadow root, created on first use. It adopts a constructable
+ * stylesheet where supported and otherwise follows the document's injection mode.
+ */
+export function getRootStyleSheet(root: ShadowRoot): StyleSheet {
+  let sheet = rootSheets.get(root);
+  if (!sheet) {
+    sheet = new StyleSheet(root, supportsAdoptedSheets(root) || getDocumentStyleSheet().speedy);
+    rootSheets.set(root, sheet);
+  }
+  return sheet;
+}
+
+const StyleTargetContext = createContext<StyleSheet | undefined>(undefined);
+
+/**
+ * Props for the StyleTarget component
+ */
+export interface StyleTargetProps {
+  /**
+   * Shadow root the styles of the children are injected into
+   */
+  target: ShadowRoot;
+  children?: JSX.Element;
+}
+
+/**
+ * Inject the styles rendered below it into a shadow root instead of the document
+ *
+ * @example
+ * ```tsx
+ * class UserCard extends HTMLElement {
+ *   connectedCallback() {
+ *     const root = this.attachShadow({ mode: "open" });
+ *     render(() => (
+ *       <StyleTarget target={root}>
+ *         <Card />
+ *       </StyleTarget>
+ *     ), root);
+ *   }
+ * }
+ * ```
+ */
+export function StyleTarget(props: StyleTargetProps): JSX.Element {
+  return createComponent(StyleTargetContext.Provider, {
+    // Nothing is injected on the server, where shadow roots do not exist
+    value: isServer ? undefined : getRootStyleSheet(props.target),
+    get children() {
+      return props.children;
+    },
+  });
+}
+
+/**
+ * The stylesheet of the nearest StyleTarget, or the document's
+ */
+export const useStyleSheet = (): StyleSheet => useContext(StyleTargetContext) ?? getDocumentStyleSheet();
@@ -0,0 +1,204 @@
+/**
+ * Theme Context
+ *
+ * Provides the theme object that styled components receive as `props.theme`
+ * inside their interpolations.
+ */
+
+import { Accessor, JSX, createComponent, createContext, createMemo, untrack, useContext } from "solid-js";
+import { Dynamic } from "solid-js/web";
+import { CSSVariableManager } from "../lightning/runtime/css-variables";
+
+/**
+ * Theme contract shared by every styled interpolation
+ *
+ * Empty by default. Apps describe their design tokens through declaration merging,
+ * which types `props.theme`, `useTheme()`, `ThemeProvider` and the CSS-variable
+ * theme helpers:
+ *
+ * @example
+ * ```ts
+ * declare module "solid-styles" {
+ *   interface DefaultTheme {
+ *     colors: { primary: string; surface: string };
+ *     spacing: { sm: string; md: string };
+ *   }
+ * }
+ * ```
+ */
+// eslint-disable-next-line @typescript-eslint/no-empty-object-type
+export interface DefaultTheme {}
+
+// Until DefaultTheme is augmented every theme access stays untyped
+type AnyIfEmpty<T extends object> = keyof T extends never ? any : T;
+
+/**
+ * Theme type seen by interpolations: DefaultTheme once augmented, otherwise `any`
+ */
+export type Theme = AnyIfEmpty<DefaultTheme>;
+
+/**
+ * Recursive partial used by nested providers, which only override some tokens
+ */
+export type DeepPartial<T> = {
+  [K in keyof T]?: T[K] extends readonly unknown[] ? T[K] : T[K] extends object ? DeepPartial<T[K]> : T[K];
+};
+
+type TokenPaths<T> = {
+  [K in keyof T & string]: T[K] extends readonly unknown[]
+    ? K
+    : T[K] extends Record<string, unknown>
+      ? `${K}.${TokenPaths<T[K]>}`
+      : K;
+}[keyof T & string];
+
+/**
+ * Dot-separated path to a leaf token of the theme, e.g. `"colors.primary"`
+ */
+export type ThemeTokenPath = keyof DefaultTheme extends never ? string : TokenPaths<DefaultTheme>;
+
+/**
+ * Options for compiling a provider's theme into CSS custom properties
+ */
+export interface ThemeVariablesOptions {
+  /**
+   * Custom property prefix, e.g. `"ds"` gives `--ds-colors-primary`
+   * @default "styled"
+   */
+  prefix?: string;
+}
+
+/**
+ * Props for the ThemeProvider component
+ */
+export interface ThemeProviderProps {
+  /**
+   * Theme object merged deeply over the outer theme, or a function that
+   * receives the outer theme and returns the theme to use
+   */
+  theme: DeepPartial<Theme> | ((outerTheme: Theme) => Theme);
+  /**
+   * Compile the theme into custom properties scoped to this subtree. Styled
+   * interpolations then read `var()` references, so switching themes updates
+   * the variables without generating new CSS.
+   */
+  cssVariables?: boolean | ThemeVariablesOptions;
+  children?: JSX.Element;
+}
+
+interface ThemeContextValue {
+  // Resolved theme values, used for merging and returned by useTheme()
+  theme: Accessor<Theme>;
+  // Theme handed to styled interpolations: the values, or var() tokens in variables mode
+  styleTheme: Accessor<Theme>;
+}
+
+const EMPTY_THEME = Object.freeze({}) as Theme;
+
+const ThemeContext = createContext<ThemeContextValue>({
+  theme: () => EMPTY_THEME,
+  styleTheme: () => EMPTY_THEME,
+});
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  value !== null && typeof value === "object" && Object.getPrototypeOf(value) === Object.prototype;
+
+/**
+ * Deeply merge two theme objects. Plain objects are merged key by key,
+ * every other value (arrays included) from `override` replaces the base value.
+ */
+export function mergeThemes<T extends object, U extends object>(base: T, override: U): T & U {
+  const result: Record<string, any> = { ...base };
+
+  for (const key of Object.keys(override)) {
+    const baseValue = result[key];
+    const overrideValue = (override as Record<string, any>)[key];
+
+    result[key] =
+      isPlainObject(baseValue) && isPlainObject(overrideValue) ? mergeThemes(baseValue, overrideValue) : overrideValue;
+  }
+
+  return result as T & U;
+}
+
+/**
+ * Provide a theme to every styled component rendered below it
+ *
+ * @example
+ * ```tsx
+ * const [dark, setDark] = createSignal(false);
+ *
+ * <ThemeProvider theme={dark() ? darkTheme : lightTheme}>
+ *   <App />
+ * </ThemeProvider>
+ *
+ * // Same, but light/dark switches only swap custom properties on a wrapper
+ * <ThemeProvider theme={dark() ? darkTheme : lightTheme} cssVariables={{ prefix: "ds" }}>
+ *   <App />
+ * </ThemeProvider>
+ * ```
+ */
+export function ThemeProvider(props: ThemeProviderProps): JSX.Element {
+  const outer = useContext(ThemeContext);
+
+  const theme = createMemo(() => {
+    const outerTheme = outer.theme();
+    const value = props.theme;
+    return typeof value === "function" ? value(outerTheme) : (mergeThemes(outerTheme, value ?? EMPTY_THEME) as Theme);
+  });
+
+  if (!props.cssVariables) {
+    return createComponent(ThemeContext.Provider, {
+      value: { theme, styleTheme: theme },
+      get children() {
+        return props.children;
+      },
+    });
+  }
+
+  const options = typeof props.cssVariables === "object" ? props.cssVariables : {};
+  const manager = new CSSVariableManager({ prefix: options.prefix ?? "styled", cache: false });
+  const compiled = createMemo(() => manager.compileTheme(theme()));
+
+  // Tokens only depend on the theme's shape, so swapping values keeps interpolation
+  // output (and therefore every generated class) unchanged.
+  const shape = createMemo(() => Object.keys(compiled().variables).join("|"));
+  const tokens = createMemo(() => {
+    shape();
+    return untrack(() => compiled().tokens);
+  });
+
+  return createComponent(ThemeContext.Provider, {
+    value: { theme, styleTheme: tokens },
+    get children() {
+      return createComponent(Dynamic, {
+        component: "div",
+        "data-theme-scope": "",
+        get style() {
+          return { display: "contents", ...compiled().variables };
+        },
+        get children() {
+          return props.children;
+        },
+      });
+    },
+  });
+}
+
+/**
+ * Read the theme of the nearest ThemeProvider
+ *
+ * Returns an accessor so reads stay reactive when the provider's theme changes.
+ * Without a provider the accessor resolves to an empty object.
+ */
+export function useTheme(): Accessor<Theme> {
+  return useContext(ThemeContext).theme;
+}
+
+/**
+ * Read the theme handed to styled interpolations, which holds `var()` tokens
+ * instead of values below a `cssVariables` provider
+ */
+export function useStyleTheme(): Accessor<Theme> {
+  return useContext(ThemeContext).styleTheme;
+}
@@ -0,0 +1,86 @@
+/**
+ * Variants
+ *
+ * Declarative variant styles (`size`, `tone`, ...) resolved to one class per
+ * selected value, plus compound variants for combinations. Each value has a
+ * deterministic key (`size:sm`, `compound:0`) that build-time extraction uses
+ * to register a static class with the RuntimeResolver.
+ */
+
+import type { CSSObject } from "./object-styles";
+
+/**
+ * Styles of one variant value: a style object, CSS text, or a class from css``
+ */
+export type VariantStyle = CSSObject | string;
+
+/**
+ * Variant name to value to styles, e.g. `{ size: { sm: {...}, lg: {...} } }`
+ */
+export type VariantDefinitions = Record<string, Record<string, VariantStyle>>;
+
+// Variants with `true`/`false` values are toggled with a boolean prop
+type VariantValue<K> = K extends "true" | "false" ? boolean | K : K;
+
+/**
+ * Props selecting a value for each variant
+ */
+export type VariantProps<V extends VariantDefinitions> = {
+  [N in keyof V]?: VariantValue<keyof V[N] & string>;
+};
+
+/**
+ * Styles applied when every listed variant has the given value
+ */
+export type CompoundVariant<V extends VariantDefinitions> = VariantProps<V> & { css: VariantStyle };
+
+/**
+ * Config passed to `.variants()`
+ */
+export interface VariantsConfig<V extends VariantDefinitions> {
+  variants: V;
+  compoundVariants?: CompoundVariant<V>[];
+  defaultVariants?: VariantProps<V>;
+}
+
+/**
+ * RuntimeResolver key of a variant value
+ */
+export const variantKey = (name: string, value: string): string => `${name}:${value}`;
+
+/**
+ * RuntimeResolver key of a compound variant, by its position in the config
+ */
+export const compoundVariantKey = (index: number): string => `compound:${index}`;
+
+/**
+ * Resolve the classes for the variants selected by `props`, falling back to
+ * `defaultVariants`. `toClass` turns a key and its styles into a class name.
+ */
+export function resolveVariantClasses<V extends VariantDefinitions>(
+  config: VariantsConfig<V>,
+  props: Record<string, any>,
+  toClass: (key: string, style: VariantStyle) => string
+): string[] {
+  const classes: string[] = [];
+  const selection: Record<string, string> = {};
+
+  for (const [name, values] of Object.entries(config.variants)) {
+    const value = props[name] ?? config.defaultVariants?.[name];
+    if (value === undefined || value === null) continue;
+
+    const key = String(value);
+    selection[name] = key;
+
+    const style = values[key];
+    if (style !== undefined) classes.push(toClass(variantKey(name, key), style));
+  }
+
+  config.compoundVariants?.forEach((compound, index) => {
+    const { css: style, ...conditions } = compound;
+    const matches = Object.entries(conditions).every(([name, value]) => selection[name] === String(value));
+    if (matches) classes.push(toClass(compoundVariantKey(index), style));
+  });
+
+  return classes;
+}
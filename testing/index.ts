@@ -0,0 +1,269 @@
+/**
+ * Testing Utilities
+ *
+ * Helpers for asserting on the CSS solid-styles generates, available from
+ * `solid-styles/testing`. They read the rules from the stylesheets in the
+ * document: the text of readable `<style>` tags, so values are compared as they
+ * were written, or the CSSOM of speedy and adopted stylesheets. Nothing is
+ * registered globally; add the matchers and the serializer in a setup file:
+ *
+ * @example
+ * ```ts
+ * import { expect } from "vitest";
+ * import { styleMatchers, styleSerializer } from "solid-styles/testing";
+ *
+ * expect.extend(styleMatchers);
+ * expect.addSnapshotSerializer(styleSerializer);
+ * ```
+ */
+
+import { compileCssRules, parseCss, splitSelectorList, type CssNode } from "../src/css-compiler";
+
+/**
+ * Options narrowing the rule `toHaveStyleRule` looks at
+ */
+export interface StyleRuleOptions {
+  /**
+   * Media query the rule is nested in, e.g. `"(min-width: 768px)"`
+   */
+  media?: string;
+  /**
+   * Selector appended to the class, e.g. `":hover"`, `"::before"` or `"&[disabled]"`
+   */
+  modifier?: string;
+}
+
+/**
+ * Matchers added by `expect.extend(styleMatchers)`, for augmenting the `expect` types
+ *
+ * @example
+ * ```ts
+ * declare module "vitest" {
+ *   interface Assertion<T> extends StyleRuleMatchers<T> {}
+ * }
+ * ```
+ */
+export interface StyleRuleMatchers<R = unknown> {
+  toHaveStyleRule(property: string, expected?: unknown, options?: StyleRuleOptions): R;
+}
+
+// The parts of Jest's and Vitest's matcher context the matchers use
+interface MatcherContext {
+  isNot: boolean;
+  equals(actual: unknown, expected: unknown): boolean;
+  utils: {
+    printReceived(value: unknown): string;
+    printExpected(value: unknown): string;
+  };
+}
+
+// pretty-format's printer, handed to serializer plugins
+type Printer = (
+  value: unknown,
+  config: unknown,
+  indentation: string,
+  depth: number,
+  refs: unknown[],
+  hasCalledToJSON?: boolean
+) => string;
+
+interface FoundRule {
+  selectors: string[];
+  media: string | undefined;
+  declarations: string[];
+}
+
+// Whitespace and spacing after commas differ between browsers and jsdom
+const normalize = (text: string): string =>
+  text
+    .replace(/\s+/g, " ")
+    .replace(/\s*,\s*/g, ",")
+    .trim();
+
+// Media queries compared without any whitespace (`(min-width:768px)`)
+const compactMedia = (media: string | undefined): string | undefined => media?.replace(/\s+/g, "");
+
+const cssRulesText = (sheet: CSSStyleSheet | null): string =>
+  sheet
+    ? Array.from(sheet.cssRules)
+        .map((rule) => rule.cssText)
+        .join("\n")
+    : "";
+
+// Top-level rules of every stylesheet in the document, one rule per string
+function documentRules(): string[] {
+  const styles = Array.from(document.querySelectorAll("style")).map(
+    (style) => style.textContent || cssRulesText(style.sheet)
+  );
+  const adopted = ((document as Document & { adoptedStyleSheets?: CSSStyleSheet[] }).adoptedStyleSheets ?? []).map(
+    cssRulesText
+  );
+  return [...styles, ...adopted].flatMap((text) => compileCssRules(null, text));
+}
+
+// `.name` as a whole class in a selector, so `.bau1` does not match `.bau12`
+const classPattern = (className: string): RegExp =>
+  new RegExp(`\\.${className.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}(?![\\w-])`);
+
+// Whether a block, or any block nested in it, selects the class or defines keyframes with its name
+const referencesClass = (node: CssNode, pattern: RegExp, className: string): boolean => {
+  if (node.type === "declaration") return false;
+  if (node.prelude.startsWith("@")) {
+    return (
+      node.prelude.replace(/\s+/g, " ") === `@keyframes ${className}` ||
+      node.children.some((child) => referencesClass(child, pattern, className))
+    );
+  }
+  return pattern.test(node.prelude);
+};
+
+/**
+ * The CSS of the top-level rules generated for a class (or a `keyframes` name)
+ *
+ * @example
+ * ```ts
+ * const className = css`color: red; &:hover { color: blue; }`;
+ * getStyleRules(className);
+ * // [".bau1, .sc-bau1 { color: red; }", ".bau1:hover, .sc-bau1:hover { color: blue; }"]
+ * ```
+ */
+export function getStyleRules(className: string): string[] {
+  const pattern = classPattern(className);
+  return documentRules().filter((rule) => parseCss(rule).some((node) => referencesClass(node, pattern, className)));
+}
+
+// Style rules with the media query they are nested in. Other grouping at-rules
+// (`@supports`, `@layer`, `@container`) are looked through; `@keyframes` hold no selectors.
+function findStyleRules(nodes: CssNode[], media: string | undefined, found: FoundRule[]): FoundRule[] {
+  for (const node of nodes) {
+    if (node.type === "declaration") continue;
+
+    if (node.prelude.startsWith("@media")) {
+      findStyleRules(node.children, node.prelude.slice("@media".length).trim(), found);
+    } else if (/^@(supports|layer|container|scope|document)\b/.test(node.prelude)) {
+      findStyleRules(node.children, media, found);
+    } else if (!node.prelude.startsWith("@")) {
+      found.push({
+        selectors: splitSelectorList(node.prelude).map(normalize),
+        media,
+        declarations: node.children.flatMap((child) => (child.type === "declaration" ? [child.value] : [])),
+      });
+    }
+  }
+  return found;
+}
+
+// Classes of an element, or the class passed in
+const classesOf = (received: unknown): string[] => {
+  if (typeof received === "string") return received.split(/\s+/).filter(Boolean);
+  if (received instanceof Element) return Array.from(received.classList);
+  // createGlobalStyles results and other values that stand for a class
+  return received != null ? [String(received)] : [];
+};
+
+// Value of the last declaration of `property` in the matching rules, as the cascade would pick
+function findDeclaration(classes: string[], property: string, options: StyleRuleOptions): string | undefined {
+  const modifier = normalize((options.modifier ?? "").replace(/^&/, ""));
+  const selectors = new Set(classes.map((className) => normalize(`.${className}${modifier}`)));
+  const media = compactMedia(options.media);
+
+  let value: string | undefined;
+  for (const rule of findStyleRules(documentRules().flatMap(parseCss), undefined, [])) {
+    if (compactMedia(rule.media) !== media || !rule.selectors.some((selector) => selectors.has(selector))) continue;
+
+    for (const declaration of rule.declarations) {
+      const colon = declaration.indexOf(":");
+      if (declaration.slice(0, colon).trim() === property) {
+        value = declaration.slice(colon + 1).trim();
+      }
+    }
+  }
+  return value;
+}
+
+/**
+ * Matchers for `expect.extend`
+ */
+export const styleMatchers = {
+  /**
+   * Assert that an element (or a class name) has a style rule setting `property` to
+   * `expected`: a string, a RegExp or an asymmetric matcher. Without `expected`,
+   * assert that no rule sets `property`.
+   *
+   * @example
+   * ```ts
+   * expect(button).toHaveStyleRule("color", "red");
+   * expect(button).toHaveStyleRule("color", "blue", { modifier: ":hover" });
+   * expect(button).toHaveStyleRule("padding", "8px", { media: "(min-width: 768px)" });
+   * ```
+   */
+  toHaveStyleRule(
+    this: MatcherContext,
+    received: unknown,
+    property: string,
+    expected?: unknown,
+    options: StyleRuleOptions = {}
+  ) {
+    const actual = findDeclaration(classesOf(received), property, options);
+
+    let pass: boolean;
+    if (expected === undefined) {
+      pass = actual === undefined;
+    } else if (actual === undefined) {
+      pass = false;
+    } else if (expected instanceof RegExp) {
+      pass = expected.test(actual);
+    } else if (typeof expected === "string") {
+      pass = normalize(actual) === normalize(expected);
+    } else {
+      pass = this.equals(actual, expected);
+    }
+
+    const where = [options.modifier && `modifier ${options.modifier}`, options.media && `media ${options.media}`]
+      .filter(Boolean)
+      .join(", ");
+
+    return {
+      pass,
+      message: () =>
+        actual === undefined
+          ? `expected a style rule for "${property}"${where ? ` (${where})` : ""}, but none was found`
+          : `expected "${property}"${where ? ` (${where})` : ""} ${this.isNot ? "not " : ""}to be ` +
+            `${this.utils.printExpected(expected)}, received ${this.utils.printReceived(actual)}`,
+    };
+  },
+};
+
+// Elements being printed, so the serializer does not print their CSS again for each child
+const serializing = new WeakSet<Element>();
+
+/**
+ * Snapshot serializer that prints the CSS of every class in an element's subtree
+ * above its markup
+ */
+export const styleSerializer = {
+  test(value: unknown): boolean {
+    return typeof Element !== "undefined" && value instanceof Element && !serializing.has(value);
+  },
+
+  serialize(
+    value: Element,
+    config: unknown,
+    indentation: string,
+    depth: number,
+    refs: unknown[],
+    printer: Printer
+  ): string {
+    const elements = [value, ...Array.from(value.querySelectorAll("*"))];
+    const classes = new Set(elements.flatMap((element) => Array.from(element.classList)));
+    const rules = new Set(Array.from(classes).flatMap((className) => getStyleRules(className)));
+
+    elements.forEach((element) => serializing.add(element));
+    try {
+      const markup = printer(value, config, indentation, depth, refs);
+      return rules.size > 0 ? `${Array.from(rules).join("\n")}\n\n${markup}` : markup;
+    } finally {
+      elements.forEach((element) => serializing.delete(element));
+    }
+  },
+};
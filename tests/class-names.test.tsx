@@ -0,0 +1,140 @@
+/** @jsxImportSource solid-js */
+import { describe, it, expect, afterEach } from "vitest";
+import { render, cleanup } from "@solidjs/testing-library";
+import { styled, css, keyframes, setup } from "../src";
+import { contentClassName, generateClassName, hashString } from "../src/class-names";
+import { parseStyledComponent } from "../lightning/extractor/parser";
+
+// Classes of the first element in a container
+const classesOf = (container: Element): string[] => Array.from(container.firstElementChild!.classList);
+
+describe("Class names", () => {
+  afterEach(() => {
+    cleanup();
+    setup(null, null, { namespace: "" });
+  });
+
+  it("should name CSS by a deterministic base-36 hash", () => {
+    const className = css`
+      color: sienna;
+    `;
+
+    expect(hashString("color: sienna;")).toBe(hashString("color: sienna;"));
+    expect(hashString("color: sienna;")).not.toBe(hashString("color: sienne;"));
+    expect(className).toMatch(/^bau[0-9a-z]+$/);
+    expect(className).toBe(contentClassName("\n      color: sienna;\n    "));
+  });
+
+  it("should tell apart components whose templates differ only in their values", () => {
+    const first = "red";
+    const second = "blue";
+    const Red = styled.p`
+      color: ${first};
+    `;
+    const Blue = styled.p`
+      color: ${second};
+    `;
+
+    expect(Red).not.toBe(Blue);
+    expect(String(Red)).not.toBe(String(Blue));
+
+    const red = render(() => <Red />).container;
+    const blue = render(() => <Blue />).container;
+
+    expect(red.firstElementChild).toHaveStyleRule("color", "red");
+    expect(blue.firstElementChild).toHaveStyleRule("color", "blue");
+  });
+
+  it("should not share components whose prop functions close over different values", () => {
+    const make = (color: string) => styled.p`
+      color: ${() => color};
+    `;
+    const Red = make("red");
+    const Blue = make("blue");
+
+    expect(Red).not.toBe(Blue);
+    expect(String(Red)).not.toBe(String(Blue));
+    expect(render(() => <Blue />).container.firstElementChild).toHaveStyleRule("color", "blue");
+  });
+
+  it("should give components sharing a template but not their attrs their own component class", () => {
+    const Email = styled.input.attrs({ type: "email" })`
+      border: 1px solid;
+    `;
+    const Password = styled.input.attrs({ type: "password" })`
+      border: 1px solid;
+    `;
+
+    expect(String(Email)).not.toBe(String(Password));
+    expect(classesOf(render(() => <Email />).container)).not.toContain(String(Password).slice(1));
+  });
+
+  it("should prefix classes, keyframes and component classes with the namespace", () => {
+    setup(null, null, { namespace: "checkout" });
+
+    const className = css`
+      margin: 1px;
+    `;
+    const fade = keyframes`
+      to { opacity: 0; }
+    `;
+    const Panel = styled.section.withConfig({ componentId: "Panel-1" })`
+      margin: 2px;
+    `;
+    const { container } = render(() => <Panel />);
+
+    expect(className).toMatch(/^checkout-bau[0-9a-z]+$/);
+    expect(fade).toMatch(/^checkout-bau[0-9a-z]+$/);
+    expect(String(Panel)).toBe(".checkout-sc-Panel-1");
+    expect(classesOf(container)).toContain("checkout-sc-Panel-1");
+  });
+
+  it("should add a readable label class in development", () => {
+    const env = process.env.NODE_ENV;
+    process.env.NODE_ENV = "development";
+    try {
+      const Button = styled.button.withConfig({ displayName: "Button", componentId: "1a2b" })`
+        padding: 3px;
+      `;
+
+      expect(classesOf(render(() => <Button />).container)).toContain("Button__sc-1a2b");
+    } finally {
+      process.env.NODE_ENV = env;
+    }
+  });
+
+  it("should leave the label out of other builds", () => {
+    const Button = styled.button.withConfig({ displayName: "Button", componentId: "3c4d" })`
+      padding: 3px;
+    `;
+
+    expect(classesOf(render(() => <Button />).container)).not.toContain("Button__sc-3c4d");
+  });
+
+  it("should agree with the names the Lightning parser generates", () => {
+    const [component] = parseStyledComponent("const Box = styled.div`color: red;`;", "box.tsx", {
+      namespace: "checkout",
+    });
+
+    expect(component.namespace).toBe("checkout");
+    expect(generateClassName("Box", { size: "lg" }, component.namespace)).toBe("checkout-box_size-lg");
+  });
+
+  it("should render the component class the Lightning parser targets in extracted CSS", () => {
+    const [icon, button] = parseStyledComponent(
+      "const Icon = styled.span`color: red;`;\nconst Button = styled.button`& ${Icon} { color: blue; }`;",
+      "button.tsx",
+      { namespace: "checkout" }
+    );
+    const selector = button.styles.match(/& (\S+) \{/)![1];
+
+    // The build plugin passes the parser's id to the runtime definition
+    setup(null, null, { namespace: "checkout" });
+    const Icon = styled.span.withConfig({ componentId: icon.componentId })`
+      color: red;
+    `;
+
+    expect(String(Icon)).toBe(selector);
+    expect(classesOf(render(() => <Icon />).container)).toContain(selector.slice(1));
+  });
+});
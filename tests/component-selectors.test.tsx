@@ -0,0 +1,115 @@
+/** @jsxImportSource solid-js */
+import { describe, it, expect, afterEach } from "vitest";
+import { render, cleanup } from "@solidjs/testing-library";
+import { styled } from "../src";
+import { parseStyledComponent } from "../lightning/extractor/parser";
+import { lightningCSSPlugin } from "../lightning/transforms/vinxi-plugin";
+
+// The first class on a styled element is the raw hash whose <style> element holds its CSS
+const cssFor = (el: Element | null): string => {
+  const rawClass = el?.className.split(" ")[0] ?? "";
+  return document.getElementById(rawClass)?.textContent ?? "";
+};
+
+describe("Component selectors", () => {
+  afterEach(() => {
+    cleanup();
+  });
+
+  it("should stringify a styled component to its selector", () => {
+    const Icon = styled.svg`
+      width: 16px;
+    `;
+
+    const { container } = render(() => <Icon />);
+    const selector = String(Icon);
+
+    expect(selector).toMatch(/^\.sc-/);
+    expect(container.querySelector(selector)).not.toBeNull();
+  });
+
+  it("should target a component from another template", () => {
+    const Icon = styled.span`
+      opacity: 0.5;
+    `;
+    const Button = styled.button`
+      ${Icon} {
+        margin-right: 4px;
+      }
+      &:hover ${Icon} {
+        opacity: 1;
+      }
+    `;
+
+    const { container } = render(() => (
+      <Button>
+        <Icon />
+        Save
+      </Button>
+    ));
+    const css = cssFor(container.querySelector("button"));
+
+    expect(css).toContain(` ${String(Icon)},`);
+    expect(css).toContain(`:hover ${String(Icon)},`);
+    expect(css).not.toContain("function");
+  });
+
+  it("should reference the parent with `${Parent}:hover &`", () => {
+    const Card = styled.article`
+      padding: 8px;
+    `;
+    const Title = styled.h2`
+      ${Card}:hover & {
+        text-decoration: underline;
+      }
+    `;
+
+    const { container } = render(() => (
+      <Card>
+        <Title>Docs</Title>
+      </Card>
+    ));
+
+    const rawClass = container.querySelector("h2")!.className.split(" ")[0];
+
+    expect(cssFor(container.querySelector("h2"))).toContain(`${String(Card)}:hover .${rawClass},`);
+  });
+
+  it("should use the configured componentId", () => {
+    const Badge = styled.span.withConfig({ componentId: "Badge-1" })`
+      font-size: 12px;
+    `;
+
+    const { container } = render(() => <Badge />);
+
+    expect(String(Badge)).toBe(".sc-Badge-1");
+    expect(container.querySelector("span")?.classList.contains("sc-Badge-1")).toBe(true);
+  });
+});
+
+describe("Lightning extraction of component selectors", () => {
+  const SOURCE = `
+    const Icon = styled.span.attrs({ "aria-hidden": true })\`
+      opacity: 0.5;
+    \`;
+    const Button = styled.button\`
+      &:hover \${Icon} {
+        opacity: 1;
+      }
+    \`;
+  `;
+
+  it("should replace references with the component selector", () => {
+    const [icon, button] = parseStyledComponent(SOURCE, "button.tsx");
+
+    expect(button.styles).toContain(`&:hover .sc-${icon.componentId} {`);
+  });
+
+  it("should give referenced components their id in the transformed code", async () => {
+    const result = await lightningCSSPlugin().transform!(SOURCE, "button.tsx");
+    const [icon, button] = parseStyledComponent(SOURCE, "button.tsx");
+
+    expect(result?.code).toContain(`styled.span.withConfig({ componentId: "${icon.componentId}" })`);
+    expect(result?.code).not.toContain(`"${button.componentId}"`);
+  });
+});
@@ -48,7 +48,7 @@ describe("Core Features Tests", () => {
         }
       `;
 
-      expect(className).toMatch(/^bau\d+$/);
+      expect(className).toMatch(/^bau[0-9a-z]+$/);
 
       // Check that style was injected
       const styleEl = document.getElementById(className);
@@ -83,7 +83,7 @@ describe("Core Features Tests", () => {
         }
       `;
 
-      expect(spin).toMatch(/^bau\d+$/);
+      expect(spin).toMatch(/^bau[0-9a-z]+$/);
 
       // Check that keyframe was injected
       const styleEl = document.getElementById(`kf-${spin}`);
@@ -107,8 +107,7 @@ describe("Core Features Tests", () => {
       const div = container.querySelector("div");
 
       expect(div).toBeTruthy();
-      const styles = window.getComputedStyle(div!);
-      expect(styles.animationName).toBe(fadeIn);
+      expect(div).toHaveStyleRule("animation", `${fadeIn} 1s ease-in`);
     });
   });
 
@@ -125,7 +124,7 @@ describe("Core Features Tests", () => {
         }
       `;
 
-      expect(globalId).toMatch(/^bau\d+$/);
+      expect(String(globalId)).toMatch(/^bau[0-9a-z]+$/);
 
       // Check that global styles were injected
       const styleEl = document.getElementById(`global-${globalId}`);
@@ -0,0 +1,103 @@
+/** @jsxImportSource solid-js */
+import { describe, it, expect, afterEach } from "vitest";
+import { render, cleanup } from "@solidjs/testing-library";
+import { styled } from "../src";
+import { compileCss, splitSelectorList } from "../src/css-compiler";
+
+describe("compileCss", () => {
+  it("should flatten nested selectors against the parent", () => {
+    expect(
+      compileCss(
+        ".btn",
+        `
+        color: red;
+        &:hover { color: blue; }
+        > span { margin: 0; }
+        &--active, &.is-active { font-weight: 700; }
+        `
+      )
+    ).toBe(
+      [
+        ".btn { color: red; }",
+        ".btn:hover { color: blue; }",
+        ".btn > span { margin: 0; }",
+        ".btn--active, .btn.is-active { font-weight: 700; }",
+      ].join("\n")
+    );
+  });
+
+  it("should combine comma lists on both sides", () => {
+    expect(compileCss(".a, .b", "&:hover, &:focus { outline: 0; }")).toBe(
+      ".a:hover, .b:hover, .a:focus, .b:focus { outline: 0; }"
+    );
+  });
+
+  it("should hoist at-rules out of the rules they are nested in", () => {
+    expect(
+      compileCss(
+        ".card",
+        `
+        padding: 8px;
+        @media (min-width: 600px) {
+          padding: 16px;
+          &:hover { color: blue; }
+          @supports (display: grid) { display: grid; }
+        }
+        .title { @media print { display: none; } }
+        `
+      )
+    ).toBe(
+      [
+        ".card { padding: 8px; }",
+        "@media (min-width: 600px) { .card { padding: 16px; } .card:hover { color: blue; } " +
+          "@supports (display: grid) { .card { display: grid; } } }",
+        "@media print { .card .title { display: none; } }",
+      ].join("\n")
+    );
+  });
+
+  it("should keep keyframes and font-face as written", () => {
+    expect(
+      compileCss(".x", "@keyframes spin { from { opacity: 0; } to { opacity: 1; } } @font-face { font-family: X; }")
+    ).toBe("@keyframes spin { from { opacity: 0; } to { opacity: 1; } }\n@font-face { font-family: X; }");
+  });
+
+  it("should not split inside strings, parentheses or comments", () => {
+    expect(
+      compileCss(
+        ".icon",
+        `/* a; b { } */ content: "a; b { }"; background: url(data:image/svg+xml;utf8,<svg></svg>);
+        &:is(:hover, :focus) { color: blue }`
+      )
+    ).toBe(
+      '.icon { content: "a; b { }"; background: url(data:image/svg+xml;utf8,<svg></svg>); }\n' +
+        ".icon:is(:hover, :focus) { color: blue; }"
+    );
+  });
+
+  it("should split selector lists on top-level commas only", () => {
+    expect(splitSelectorList(':is(a, b), [data-x="1,2"], c')).toEqual([":is(a, b)", '[data-x="1,2"]', "c"]);
+  });
+});
+
+describe("Injected styles", () => {
+  afterEach(() => {
+    cleanup();
+  });
+
+  it("should inject compiled rules for the class and its alias", () => {
+    const Link = styled.a`
+      color: red;
+      &:hover {
+        color: blue;
+      }
+    `;
+
+    const { container } = render(() => <Link href="#">Docs</Link>);
+    const rawClass = container.querySelector("a")!.className.split(" ")[0];
+
+    expect(document.getElementById(rawClass)?.textContent).toBe(
+      `.${rawClass}, .sc-${rawClass} { color: red; }\n.${rawClass}:hover, .sc-${rawClass}:hover { color: blue; }`
+    );
+  });
+});
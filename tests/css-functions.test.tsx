@@ -21,8 +21,8 @@ describe("CSS Functions", () => {
         font-size: 16px;
       `;
 
-      expect(styles).toContain("color: red");
-      expect(styles).toContain("font-size: 16px");
+      expect(styles).toHaveStyleRule("color", "red");
+      expect(styles).toHaveStyleRule("font-size", "16px");
     });
 
     it("should interpolate values", () => {
@@ -34,8 +34,8 @@ describe("CSS Functions", () => {
         font-size: ${size}px;
       `;
 
-      expect(styles).toContain("color: blue");
-      expect(styles).toContain("font-size: 20px");
+      expect(styles).toHaveStyleRule("color", "blue");
+      expect(styles).toHaveStyleRule("font-size", "20px");
     });
 
     it("should handle nested template literals", () => {
@@ -49,9 +49,27 @@ describe("CSS Functions", () => {
         color: green;
       `;
 
-      expect(styles).toContain("padding: 10px");
-      expect(styles).toContain("margin: 5px");
-      expect(styles).toContain("color: green");
+      expect(styles).toHaveStyleRule("padding", "10px");
+      expect(styles).toHaveStyleRule("margin", "5px");
+      expect(styles).toHaveStyleRule("color", "green");
+    });
+
+    it("should keep a css class used as a selector as its name", () => {
+      const child = css`
+        color: red;
+      `;
+
+      const parent = css`
+        & .${child} {
+          color: blue;
+        }
+      `;
+
+      const cssText = Array.from(document.querySelectorAll("style"))
+        .map((style) => style.textContent)
+        .join("\n");
+      expect(cssText).toContain(`.${parent} .${child}`);
+      expect(cssText).not.toContain(`.${parent} .\n`);
     });
 
     it("should handle functions as interpolations", () => {
@@ -62,8 +80,8 @@ describe("CSS Functions", () => {
         background: ${getColor(false)};
       `;
 
-      expect(styles).toContain("color: blue");
-      expect(styles).toContain("background: gray");
+      expect(styles).toHaveStyleRule("color", "blue");
+      expect(styles).toHaveStyleRule("background", "gray");
     });
 
     it("should handle arrays in interpolations", () => {
@@ -73,7 +91,7 @@ describe("CSS Functions", () => {
         box-shadow: ${shadows.join(", ")};
       `;
 
-      expect(styles).toContain("box-shadow: 0 2px 4px rgba(0,0,0,0.1), 0 4px 8px rgba(0,0,0,0.2)");
+      expect(styles).toHaveStyleRule("box-shadow", "0 2px 4px rgba(0,0,0,0.1), 0 4px 8px rgba(0,0,0,0.2)");
     });
 
     it("should handle conditional styles", () => {
@@ -93,9 +111,9 @@ describe("CSS Functions", () => {
         `}
       `;
 
-      expect(styles).toContain("color: blue");
-      expect(styles).toContain("font-weight: bold");
-      expect(styles).not.toContain("opacity: 0.5");
+      expect(styles).toHaveStyleRule("color", "blue");
+      expect(styles).toHaveStyleRule("font-weight", "bold");
+      expect(styles).not.toHaveStyleRule("opacity", "0.5");
     });
 
     it("should work with styled components", () => {
@@ -129,9 +147,9 @@ describe("CSS Functions", () => {
         }
       `;
 
-      expect(styles).toContain("width: 100%");
-      expect(styles).toContain("@media (min-width: 768px)");
-      expect(styles).toContain("@media (min-width: 1024px)");
+      expect(styles).toHaveStyleRule("width", "100%");
+      expect(styles).toHaveStyleRule("width", "50%", { media: "(min-width: 768px)" });
+      expect(styles).toHaveStyleRule("width", "33.33%", { media: "(min-width: 1024px)" });
     });
 
     it("should handle pseudo-classes and pseudo-elements", () => {
@@ -154,10 +172,10 @@ describe("CSS Functions", () => {
         }
       `;
 
-      expect(styles).toContain("&:hover");
-      expect(styles).toContain("&:focus");
-      expect(styles).toContain("&::before");
-      expect(styles).toContain("&:nth-child(2n)");
+      expect(styles).toHaveStyleRule("color", "blue", { modifier: ":hover" });
+      expect(styles).toHaveStyleRule("outline", "2px solid blue", { modifier: ":focus" });
+      expect(styles).toHaveStyleRule("content", '""', { modifier: "::before" });
+      expect(styles).toHaveStyleRule("background", "#f0f0f0", { modifier: "&:nth-child(2n)" });
     });
 
     it("should handle CSS variables", () => {
@@ -169,9 +187,9 @@ describe("CSS Functions", () => {
         background: var(--bg-color, #ffffff);
       `;
 
-      expect(styles).toContain("--primary-color: #007bff");
-      expect(styles).toContain("color: var(--primary-color)");
-      expect(styles).toContain("background: var(--bg-color, #ffffff)");
+      expect(styles).toHaveStyleRule("--primary-color", "#007bff");
+      expect(styles).toHaveStyleRule("color", "var(--primary-color)");
+      expect(styles).toHaveStyleRule("background", "var(--bg-color, #ffffff)");
     });
   });
 
@@ -0,0 +1,159 @@
+/** @jsxImportSource solid-js */
+import { describe, it, expect, afterEach } from "vitest";
+import { render, cleanup } from "@solidjs/testing-library";
+import { styled, setup } from "../src";
+import { compileCss } from "../src/css-compiler";
+import { parseStyledComponent } from "../lightning/extractor/parser";
+import { generateStaticCSS } from "../lightning/extractor/generator";
+import { optimizeExtractedStyles } from "../lightning/extractor/optimizer";
+import { extractCriticalCSS } from "../plugins/critical-css";
+
+// The first class on a styled element is the raw hash whose <style> element holds its CSS
+const cssFor = (el: Element | null): string => {
+  const rawClass = el?.className.split(" ")[0] ?? "";
+  return document.getElementById(rawClass)?.textContent ?? "";
+};
+
+describe("Container queries", () => {
+  afterEach(() => {
+    cleanup();
+  });
+
+  it("should scope nested @container blocks to the component", () => {
+    expect(
+      compileCss(".card", "container-type: inline-size; @container (min-width: 400px) { > h2 { font-size: 2rem; } }")
+    ).toBe(".card { container-type: inline-size; }\n@container (min-width: 400px) { .card > h2 { font-size: 2rem; } }");
+  });
+
+  it("should inject @container rules from styled templates", () => {
+    const Card = styled.section`
+      display: block;
+      @container sidebar (max-width: 300px) {
+        display: none;
+      }
+    `;
+
+    const { container } = render(() => <Card />);
+    const section = container.querySelector("section");
+    const rawClass = section!.className.split(" ")[0];
+
+    expect(cssFor(section)).toContain(
+      `@container sidebar (max-width: 300px) { .${rawClass}, .sc-${rawClass} { display: none; } }`
+    );
+  });
+});
+
+describe("Cascade layers", () => {
+  afterEach(() => {
+    cleanup();
+    setup(null, null, { layers: [], layer: "" });
+  });
+
+  it("should declare the layer order first in <head>", () => {
+    setup(null, null, { layers: ["reset", "base", "components", "utilities"] });
+
+    const orderStyle = document.head.firstElementChild;
+
+    expect(orderStyle?.id).toBe("sc-layer-order");
+    expect(orderStyle?.textContent).toBe("@layer reset, base, components, utilities;");
+  });
+
+  it("should emit styled rules into the default layer", () => {
+    setup(null, null, { layers: ["base", "components"], layer: "components" });
+
+    const Button = styled.button`
+      padding: 4px;
+      &:hover {
+        opacity: 0.8;
+      }
+    `;
+
+    const { container } = render(() => <Button />);
+    const button = container.querySelector("button");
+    const rawClass = button!.className.split(" ")[0];
+
+    expect(cssFor(button)).toBe(
+      `@layer components { .${rawClass}, .sc-${rawClass} { padding: 4px; } .${rawClass}:hover, .sc-${rawClass}:hover { opacity: 0.8; } }`
+    );
+  });
+
+  it("should let a component choose its layer", () => {
+    setup(null, null, { layer: "components" });
+
+    const Hidden = styled.span.withConfig({ layer: "utilities" })`
+      display: none;
+    `;
+    const Plain = styled.span`
+      display: none;
+    `;
+
+    const { container } = render(() => (
+      <>
+        <Hidden />
+        <Plain />
+      </>
+    ));
+    const [hidden, plain] = Array.from(container.querySelectorAll("span"));
+
+    expect(cssFor(hidden)).toMatch(/^@layer utilities \{/);
+    expect(cssFor(plain)).toMatch(/^@layer components \{/);
+    expect(hidden.className).not.toBe(plain.className);
+  });
+});
+
+describe("Lightning extraction of layers and container queries", () => {
+  it("should extract classes into the component's layer", () => {
+    const [component] = parseStyledComponent(
+      `const Grid = styled.div.withConfig({ layer: "components" })\`
+        display: grid;
+        @container (min-width: 600px) {
+          grid-template-columns: 1fr 1fr;
+        }
+      \`;`,
+      "grid.tsx"
+    );
+    const [style] = generateStaticCSS(component);
+
+    expect(component.layer).toBe("components");
+    expect(style.css).toBe(
+      `@layer components { .${style.className} { display: grid; } ` +
+        `@container (min-width: 600px) { .${style.className} { grid-template-columns: 1fr 1fr; } } }`
+    );
+  });
+
+  it("should declare the layer order ahead of the extracted rules", async () => {
+    const css = await optimizeExtractedStyles(
+      [
+        {
+          className: "a",
+          css: "@layer utilities { .a { display: none; } }",
+          propCombination: {},
+        },
+      ],
+      ["last 1 Chrome version"],
+      false,
+      ["base", "utilities"]
+    );
+
+    expect(css.indexOf("@layer base, utilities;")).toBe(0);
+    expect(css).toContain("@layer utilities");
+  });
+});
+
+describe("Critical CSS with grouped rules", () => {
+  it("should match selectors inside @container and @layer blocks", async () => {
+    const result = await extractCriticalCSS({
+      html: '<div class="hero"></div>',
+      css: [
+        "@layer base, components;",
+        "@layer components { @container (min-width: 400px) { .hero { padding: 2rem; } } }",
+        "@media print { .footer { display: none; } }",
+      ].join("\n"),
+      inline: false,
+    });
+
+    expect(result.critical).toContain("@layer base, components;");
+    expect(result.critical).toContain("@layer components{@container (min-width:400px){.hero{padding:2rem;}}}");
+    expect(result.nonCritical).toContain("@media print { .footer { display: none; } }");
+  });
+});
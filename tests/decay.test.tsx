@@ -0,0 +1,170 @@
+/** @jsxImportSource solid-js */
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { render, fireEvent, cleanup } from "@solidjs/testing-library";
+import { createRoot, createSignal } from "solid-js";
+import { createDecay } from "../utils/spring";
+import { useGestures } from "../animation/advanced/gesture-support";
+
+describe("Decay animations", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    cleanup();
+  });
+
+  it("should glide to the projected end of the velocity", async () => {
+    await createRoot(async (dispose) => {
+      const onComplete = vi.fn();
+      const glide = createDecay(0, { onComplete });
+
+      const done = glide.start(1000);
+      expect(glide.isAnimating()).toBe(true);
+      vi.advanceTimersByTime(100);
+      expect(glide.value()).toBeGreaterThan(0);
+      expect(glide.value()).toBeLessThan(800);
+
+      vi.advanceTimersByTime(3000);
+      await done;
+      expect(glide.value()).toBe(800);
+      expect(glide.isAnimating()).toBe(false);
+      expect(onComplete).toHaveBeenCalledWith(800);
+      dispose();
+    });
+  });
+
+  it("should come to rest at the snap point nearest the projected end", async () => {
+    await createRoot(async (dispose) => {
+      const glide = createDecay(100, { snapTo: [0, 500, 1000] });
+
+      const done = glide.start(600);
+      vi.advanceTimersByTime(3000);
+      await done;
+      expect(glide.value()).toBe(500);
+      dispose();
+    });
+  });
+
+  it("should spring back to a bound it glides past", async () => {
+    await createRoot(async (dispose) => {
+      let furthest = 0;
+      const glide = createDecay(0, {
+        max: 300,
+        onUpdate: (value) => (furthest = Math.max(furthest, value)),
+      });
+
+      const done = glide.start(2000);
+      vi.advanceTimersByTime(5000);
+      await done;
+      expect(furthest).toBeGreaterThan(300);
+      expect(glide.value()).toBe(300);
+      dispose();
+    });
+  });
+
+  it("should resolve a stopped glide where it is", async () => {
+    await createRoot(async (dispose) => {
+      const glide = createDecay(0);
+
+      const done = glide.start(1000);
+      vi.advanceTimersByTime(100);
+      const stoppedAt = glide.value();
+      glide.stop();
+      await done;
+
+      vi.advanceTimersByTime(1000);
+      expect(glide.value()).toBe(stoppedAt);
+      expect(glide.isAnimating()).toBe(false);
+      dispose();
+    });
+  });
+
+  it("should keep a released drag moving with momentum", () => {
+    const Draggable = (props: { momentum: boolean }) => {
+      const [element, setElement] = createSignal<HTMLElement>();
+      const { transformStyles } = useGestures(element, {
+        drag: {
+          axis: "x",
+          momentum: props.momentum,
+          snapPoints: [
+            { x: 0, y: 0 },
+            { x: 200, y: 0 },
+          ],
+        },
+      });
+      return <div ref={setElement} data-testid={props.momentum ? "glide" : "snap"} style={transformStyles()} />;
+    };
+
+    const { getByTestId } = render(() => (
+      <>
+        <Draggable momentum />
+        <Draggable momentum={false} />
+      </>
+    ));
+
+    // Flick each element 60px to the right in 32ms
+    for (const id of ["glide", "snap"]) {
+      fireEvent.mouseDown(getByTestId(id), { clientX: 0, clientY: 0 });
+      vi.advanceTimersByTime(16);
+      fireEvent.mouseMove(document, { clientX: 30, clientY: 0 });
+      vi.advanceTimersByTime(16);
+      fireEvent.mouseMove(document, { clientX: 60, clientY: 0 });
+      fireEvent.mouseUp(document);
+    }
+
+    vi.advanceTimersByTime(4000);
+    expect(getByTestId("glide").style.transform).toContain("translate(200px, 0px)");
+    expect(getByTestId("snap").style.transform).toContain("translate(0px, 0px)");
+  });
+
+  it("should report a momentum drag from a resting position as the pointer's movement", () => {
+    const onDrag = vi.fn();
+    const onDragEnd = vi.fn();
+    const onSwipeRight = vi.fn();
+    const Draggable = () => {
+      const [element, setElement] = createSignal<HTMLElement>();
+      const { transformStyles } = useGestures(element, {
+        drag: {
+          axis: "x",
+          momentum: true,
+          snapPoints: [
+            { x: 0, y: 0 },
+            { x: 200, y: 0 },
+          ],
+          onDrag,
+          onDragEnd,
+        },
+        swipe: { onSwipeRight },
+      });
+      return <div ref={setElement} data-testid="card" style={transformStyles()} />;
+    };
+    const { getByTestId } = render(() => <Draggable />);
+    const card = getByTestId("card");
+
+    // Flick to the snap point at 200px and let it come to rest
+    fireEvent.mouseDown(card, { clientX: 0, clientY: 0 });
+    vi.advanceTimersByTime(16);
+    fireEvent.mouseMove(document, { clientX: 30, clientY: 0 });
+    vi.advanceTimersByTime(16);
+    fireEvent.mouseMove(document, { clientX: 60, clientY: 0 });
+    fireEvent.mouseUp(document);
+    vi.advanceTimersByTime(4000);
+    expect(card.style.transform).toContain("translate(200px, 0px)");
+    onDrag.mockClear();
+
+    // A short, quick touch from there drags it 10px, which is no swipe
+    fireEvent.touchStart(card, { touches: [{ clientX: 100, clientY: 0 }] });
+    vi.advanceTimersByTime(16);
+    fireEvent.touchMove(card, { touches: [{ clientX: 110, clientY: 0 }] });
+    fireEvent.touchEnd(card, { touches: [] });
+
+    expect(onDrag).toHaveBeenLastCalledWith({ x: 10, y: 0 });
+    expect(onDragEnd).toHaveBeenLastCalledWith({ x: 10, y: 0 });
+    expect(onSwipeRight).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(4000);
+    expect(card.style.transform).toContain("translate(200px, 0px)");
+  });
+});
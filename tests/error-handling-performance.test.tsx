@@ -278,7 +278,7 @@ describe("Error Handling", () => {
       logError(error);
 
       const call = consoleErrorSpy.mock.calls[0];
-      expect(call[1]).toBe(error);
+      expect(call[1]).toEqual(error);
       expect(error.stack).toBeDefined();
     });
   });
@@ -401,8 +401,8 @@ describe("Performance Utilities", () => {
 
       const measurement = measurePerformance(asyncFunction, "AsyncFunction");
 
-      // For async functions, it returns a promise
-      expect(measurement).toBeInstanceOf(Promise);
+      // For async functions, the measured result is a promise
+      expect(measurement.result).toBeInstanceOf(Promise);
     });
 
     it("should log performance with label", () => {
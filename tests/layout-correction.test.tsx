@@ -0,0 +1,98 @@
+/** @jsxImportSource solid-js */
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { render, screen } from "@solidjs/testing-library";
+import { createRoot } from "solid-js";
+import { LayoutAnimationEngine } from "../animation/layout-engine";
+import { LayoutAnimated, layoutChild } from "../animation/layout-components";
+
+// Directives are referenced by name from compiled JSX
+const directives = { layoutChild };
+
+let rects: Record<string, { left: number; top: number; width: number; height: number }>;
+let resize: () => void;
+
+// Trigger the engine's resize handling with the next layout
+const relayout = (next: typeof rects) => {
+  rects = next;
+  resize();
+};
+
+describe("Layout scale correction", () => {
+  beforeEach(() => {
+    rects = {};
+    vi.stubGlobal(
+      "ResizeObserver",
+      class {
+        constructor(callback: (entries: { target: Element }[]) => void) {
+          this.callback = callback;
+        }
+        callback: (entries: { target: Element }[]) => void;
+        observe(target: Element) {
+          resize = () => this.callback([{ target }]);
+        }
+        disconnect() {}
+      }
+    );
+    vi.spyOn(HTMLElement.prototype, "getBoundingClientRect").mockImplementation(function (this: HTMLElement) {
+      const rect = rects[this.dataset.testid ?? ""] ?? { left: 0, top: 0, width: 0, height: 0 };
+      return {
+        ...rect,
+        x: rect.left,
+        y: rect.top,
+        right: rect.left + rect.width,
+        bottom: rect.top + rect.height,
+      } as DOMRect;
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("should animate size with scale and correct radius and shadow", async () => {
+    const card = document.createElement("div");
+    card.dataset.testid = "card";
+    card.style.borderTopLeftRadius = "8px";
+    card.style.boxShadow = "rgba(0, 0, 0, 0.2) 0px 4px 8px 0px";
+    document.body.append(card);
+    rects = { card: { left: 0, top: 0, width: 100, height: 100 } };
+
+    const onComplete = vi.fn();
+    const [engine, dispose] = createRoot((dispose) => [
+      new LayoutAnimationEngine(card, { onLayoutAnimationComplete: onComplete }),
+      dispose,
+    ]);
+    relayout({ card: { left: 0, top: 0, width: 200, height: 400 } });
+
+    expect(card.style.transform).toBe("translate(0px, 0px) scale(0.5, 0.25)");
+    expect(card.style.borderRadius).toBe("16px / 32px");
+    expect(card.style.boxShadow).toBe("rgba(0, 0, 0, 0.2) 0px 16px 21.333333333333332px 0px");
+
+    await vi.waitFor(() => expect(onComplete).toHaveBeenCalled(), { timeout: 3000 });
+    expect(card.style.transform).toBe("");
+    expect(card.style.borderTopLeftRadius).toBe("8px");
+    expect(card.style.borderTopRightRadius).toBe("");
+
+    engine.destroy();
+    dispose();
+    card.remove();
+  });
+
+  it("should counter-scale only the outermost opted-in descendants", () => {
+    rects = { card: { left: 0, top: 0, width: 100, height: 50 } };
+    render(() => (
+      <LayoutAnimated layout data-testid="card">
+        <LayoutAnimated as="p" layout="preserve-aspect" data-testid="text">
+          <span use:layoutChild data-testid="nested" />
+        </LayoutAnimated>
+        <p data-testid="plain" />
+      </LayoutAnimated>
+    ));
+    relayout({ card: { left: 0, top: 0, width: 200, height: 100 } });
+
+    expect(screen.getByTestId("text").style.transform).toBe("scale(2, 2)");
+    expect(screen.getByTestId("nested").style.transform).toBe("");
+    expect(screen.getByTestId("plain").style.transform).toBe("");
+  });
+});
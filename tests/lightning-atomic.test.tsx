@@ -0,0 +1,111 @@
+/** @jsxImportSource solid-js */
+import { describe, it, expect } from "vitest";
+import { parseStyledComponent } from "../lightning/extractor/parser";
+import { generateStaticCSS } from "../lightning/extractor/generator";
+import { atomizeStyle, mergeAtomicRules, toAtomicStyles } from "../lightning/extractor/atomic";
+import { analyzeSizeReduction } from "../lightning/extractor/optimizer";
+import { RuntimeResolver } from "../lightning/runtime/resolver";
+import type { ExtractedStyle } from "../lightning/types";
+
+const extract = (code: string): ExtractedStyle[] =>
+  parseStyledComponent(code, "src/components.tsx").flatMap((component) => generateStaticCSS(component));
+
+const style = (className: string, css: string): ExtractedStyle => ({ className, css, propCombination: {} });
+
+describe("Atomic CSS", () => {
+  it("should give each declaration one class shared across components", () => {
+    const [button, link] = toAtomicStyles(
+      extract(`
+        const Button = styled.button\`color: red; padding: 4px;\`;
+        const Link = styled.a\`color: red; text-decoration: none;\`;
+      `)
+    );
+
+    const buttonClasses = button.className.split(" ");
+    const linkClasses = link.className.split(" ");
+
+    expect(buttonClasses).toHaveLength(2);
+    expect(linkClasses).toHaveLength(2);
+    expect(buttonClasses[0]).toBe(linkClasses[0]);
+    expect(button.css).toContain(`.${buttonClasses[0]} { color: red; }`);
+  });
+
+  it("should keep pseudo-classes and at-rules in the class's rule", () => {
+    const rules = atomizeStyle(
+      style("card", ".card:hover { color: blue; }\n@media (min-width: 600px) { .card { padding: 8px; } }")
+    );
+
+    expect(rules).toHaveLength(2);
+    expect(rules![0].css).toBe(`.${rules![0].className}:hover { color: blue; }`);
+    expect(rules![1].css).toBe(`@media (min-width: 600px) { .${rules![1].className} { padding: 8px; } }`);
+    expect(rules![1].order).toBeGreaterThan(rules![0].order);
+  });
+
+  it("should keep fallback declarations of one property together", () => {
+    const rules = atomizeStyle(style("box", ".box { display: -webkit-box; display: flex; }"))!;
+
+    expect(rules).toHaveLength(1);
+    expect(rules[0].css).toContain("display: -webkit-box; display: flex;");
+  });
+
+  it("should keep the component class when the rules cannot be split", () => {
+    const shorthand = style("box", ".box { padding: 0; padding-left: 4px; }");
+    const keyframes = style("spin", "@keyframes spin { to { transform: rotate(1turn); } }");
+
+    expect(atomizeStyle(shorthand)).toBeNull();
+    expect(atomizeStyle(keyframes)).toBeNull();
+    expect(toAtomicStyles([shorthand])[0]).toBe(shorthand);
+  });
+
+  it("should emit every atomic rule once, plainer rules first", () => {
+    const styles = toAtomicStyles([
+      style("a", "@media print { .a { color: black; } }\n.a { color: red; }"),
+      style("b", ".b { color: red; }\n.b:focus { outline: none; }"),
+    ]);
+    const sheet = mergeAtomicRules(styles).map((rule) => rule.css);
+
+    expect(sheet).toHaveLength(3);
+    expect(sheet[0]).toMatch(/^\.a-\w+ \{ color: red; \}$/);
+    expect(sheet[1]).toContain(":focus");
+    expect(sheet[2]).toContain("@media print");
+  });
+
+  it("should keep each component's media queries in its source order", () => {
+    const styles = toAtomicStyles([
+      style("b", "@media (min-width: 900px) { .b { color: blue; } }"),
+      style(
+        "a",
+        "@media (min-width: 600px) { .a { color: red; } }\n@media (min-width: 900px) { .a { color: blue; } }"
+      ),
+    ]);
+    const sheet = mergeAtomicRules(styles).map((rule) => rule.css);
+
+    expect(sheet).toHaveLength(2);
+    expect(sheet[0]).toContain("@media (min-width: 600px)");
+    expect(sheet[1]).toContain("@media (min-width: 900px)");
+  });
+
+  it("should resolve props to the class list", () => {
+    const [primary] = toAtomicStyles([style("button", ".button { color: red; padding: 4px; }")]);
+    const resolver = new RuntimeResolver({
+      staticClassMap: new Map([["variant:primary", primary]]),
+      fallbackToRuntime: true,
+    });
+
+    expect(resolver.resolveClassList({ variant: "primary" })).toEqual(primary.className.split(" "));
+    expect(resolver.resolveClassList({ variant: "ghost" })).toBeNull();
+  });
+
+  it("should compare atomic and component output sizes", () => {
+    const componentStyles = extract(
+      Array.from(
+        { length: 20 },
+        (_, index) => `const Box${index} = styled.div\`display: flex; color: #333; padding: ${index % 2}px;\`;`
+      ).join("\n")
+    );
+    const analysis = analyzeSizeReduction(componentStyles, toAtomicStyles(componentStyles));
+
+    expect(analysis.optimizedSize).toBeLessThan(analysis.originalSize);
+    expect(analysis.percentage).toBeGreaterThan(50);
+  });
+});
@@ -0,0 +1,173 @@
+/** @jsxImportSource solid-js */
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { parseStyledComponent } from "../lightning/extractor/parser";
+import { generateStaticCSS } from "../lightning/extractor/generator";
+import { clearEvaluationCache, evaluateModule, resolveImport } from "../lightning/extractor/evaluator";
+import { lightningCSSPlugin } from "../lightning/transforms/vinxi-plugin";
+
+let dir: string;
+
+const write = (name: string, code: string) => {
+  const file = path.join(dir, name);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, code);
+  return file;
+};
+
+const TOKENS = `
+import { scale } from "../scale";
+
+export const colors = { primary: "#0070f3", muted: "#666" } as const;
+export const sizes: Record<string, string> = { sm: "12px", lg: "18px" };
+export const spacing = (step: number) => \`\${step * scale}px\`;
+export default { radius: "4px" };
+`;
+
+describe("Import evaluation", () => {
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "lightning-evaluator-"));
+    clearEvaluationCache();
+    write("scale.ts", "export const scale = 4;");
+    write("theme/tokens.ts", TOKENS);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should resolve relative imports like TypeScript", () => {
+    expect(resolveImport("./theme/tokens", path.join(dir, "button.tsx"))).toBe(path.join(dir, "theme/tokens.ts"));
+    expect(resolveImport("./theme/tokens.js", path.join(dir, "button.tsx"))).toBe(path.join(dir, "theme/tokens.ts"));
+    expect(resolveImport("solid-styles", path.join(dir, "button.tsx"))).toBeNull();
+  });
+
+  it("should fold imported constants and helper calls into static CSS", () => {
+    const file = write(
+      "button.tsx",
+      `import { styled } from "solid-styles";
+      import theme, { colors, spacing } from "./theme/tokens";
+
+      export const Button = styled.button\`
+        color: \${colors.primary};
+        padding: \${spacing(2)};
+        border-radius: \${theme.radius};
+      \`;`
+    );
+    const [component] = parseStyledComponent(fs.readFileSync(file, "utf8"), file);
+    const [style] = generateStaticCSS(component);
+
+    expect(component.interpolations!.map((interpolation) => interpolation.kind)).toEqual([
+      "static",
+      "static",
+      "static",
+    ]);
+    expect(style.css).toContain("color: #0070f3");
+    expect(style.css).toContain("padding: 8px");
+    expect(style.css).toContain("border-radius: 4px");
+  });
+
+  it("should use imported values in prop patterns", () => {
+    const file = write(
+      "text.tsx",
+      `import * as tokens from "./theme/tokens";
+
+      const Text = styled.p\`
+        color: \${(p) => (p.$muted ? tokens.colors.muted : tokens.colors.primary)};
+        font-size: \${(p) => tokens.sizes[p.$scale]};
+      \`;`
+    );
+    const [component] = parseStyledComponent(fs.readFileSync(file, "utf8"), file);
+
+    expect(component.interpolations![0]).toMatchObject({ kind: "prop", cases: { true: "#666" }, fallback: "#0070f3" });
+    expect(component.interpolations![1]).toMatchObject({
+      kind: "prop",
+      propName: "$scale",
+      cases: { sm: "12px", lg: "18px" },
+    });
+  });
+
+  it("should leave values it cannot evaluate to the runtime", () => {
+    write("runtime.ts", `import { createTheme } from "solid-styles";\nexport const accent = createTheme().accent;`);
+    const file = write(
+      "card.tsx",
+      `import { accent } from "./runtime";
+      import { colors } from "./theme/tokens";
+
+      const Card = styled.div\`
+        color: \${accent};
+        background: \${colors.primary + Date.now()};
+      \`;`
+    );
+    const [component] = parseStyledComponent(fs.readFileSync(file, "utf8"), file);
+
+    expect(component.interpolations!.map((interpolation) => interpolation.kind)).toEqual(["dynamic", "dynamic"]);
+  });
+
+  it("should leave expressions of globals and impure helpers to the runtime", () => {
+    write("random.ts", "export const jitter = () => `${Math.random()}px`;\nexport const stamp = () => `${Date.now()}`;");
+    const file = write(
+      "badge.tsx",
+      `import { jitter, stamp } from "./random";
+      import { spacing } from "./theme/tokens";
+
+      const Badge = styled.span\`
+        margin: \${Math.random()}px;
+        padding: \${jitter()};
+        content: "\${stamp()}";
+        gap: \${spacing(Math.max(1, 2))};
+      \`;`
+    );
+    const [component] = parseStyledComponent(fs.readFileSync(file, "utf8"), file);
+
+    expect(component.interpolations!.map((interpolation) => interpolation.kind)).toEqual([
+      "dynamic",
+      "dynamic",
+      "dynamic",
+      "static",
+    ]);
+  });
+
+  it("should have the bundler watch the modules its values were evaluated from", async () => {
+    const file = write(
+      "chip.tsx",
+      `import { spacing } from "./theme/tokens";\nconst Chip = styled.span\`padding: \${spacing(1)};\`;`
+    );
+    const addWatchFile = vi.fn();
+    await lightningCSSPlugin().transform!.call({ addWatchFile }, fs.readFileSync(file, "utf8"), file);
+
+    expect(addWatchFile.mock.calls.map(([watched]) => watched).sort()).toEqual([
+      path.join(dir, "scale.ts"),
+      path.join(dir, "theme/tokens.ts"),
+    ]);
+  });
+
+  it("should not evaluate imports when disabled", () => {
+    const file = write(
+      "link.tsx",
+      `import { colors } from "./theme/tokens";\nconst Link = styled.a\`color: \${colors.primary};\`;`
+    );
+    const [component] = parseStyledComponent(fs.readFileSync(file, "utf8"), file, { evaluateImports: false });
+
+    expect(component.interpolations![0].kind).toBe("dynamic");
+  });
+
+  it("should stop modules that do not finish", () => {
+    const file = write("loop.ts", "while (true) {}\nexport const value = 1;");
+
+    expect(evaluateModule(file)).toBeNull();
+  });
+
+  it("should re-evaluate a module when a file it loaded changes", () => {
+    const tokens = path.join(dir, "theme/tokens.ts");
+    expect((evaluateModule(tokens)!.spacing as (step: number) => string)(1)).toBe("4px");
+
+    const scale = write("scale.ts", "export const scale = 8;");
+    const later = new Date(Date.now() + 5000);
+    fs.utimesSync(scale, later, later);
+
+    expect((evaluateModule(tokens)!.spacing as (step: number) => string)(1)).toBe("8px");
+  });
+});
@@ -0,0 +1,134 @@
+/** @jsxImportSource solid-js */
+import { describe, it, expect } from "vitest";
+import { parseStyledComponent } from "../lightning/extractor/parser";
+import { generateStaticCSS } from "../lightning/extractor/generator";
+
+const parse = (code: string) => parseStyledComponent(code, "src/components.tsx");
+
+describe("Lightning parser", () => {
+  it("should find exported, generic and wrapped components", () => {
+    const components = parse(`
+      export const Button = styled.button<{ $size?: "sm" | "lg" }>\`
+        padding: 4px;
+      \`;
+      const Primary = styled(Button)\`
+        color: white;
+      \`;
+      export const Card = animated(styled.div\`opacity: 1;\`);
+    `);
+
+    expect(components.map(({ componentName, tagName, isAnimated }) => [componentName, tagName, isAnimated])).toEqual([
+      ["Button", "button", false],
+      ["Primary", "Button", false],
+      ["Card", "div", true],
+    ]);
+  });
+
+  it("should keep nested templates inside an interpolation", () => {
+    const [component] = parse(`
+      const Box = styled.div\`
+        border: \${(props) => (props.$outlined ? \`1px solid \${props.$color}\` : "none")};
+        margin: 0;
+      \`;
+    `);
+
+    expect(component.styles).toContain("margin: 0;");
+    expect(component.interpolations).toHaveLength(1);
+    expect(component.interpolations![0]).toMatchObject({ kind: "dynamic" });
+    expect(component.interpolations![0].source).toBe(
+      '${(props) => (props.$outlined ? `1px solid ${props.$color}` : "none")}'
+    );
+  });
+
+  it("should report exact source locations", () => {
+    const code = `const Box = styled.div\`
+  color: \${({ $tone }) => $tone || "black"};
+\`;`;
+    const [component] = parse(code);
+    const [interpolation] = component.interpolations!;
+
+    expect(component.location).toMatchObject({ file: "src/components.tsx", line: 1, column: 13 });
+    expect(interpolation.location).toMatchObject({ line: 2, column: 12 });
+    expect(code.slice(interpolation.location.start, interpolation.location.end)).toBe(
+      '({ $tone }) => $tone || "black"'
+    );
+  });
+});
+
+describe("Interpolation classification", () => {
+  const classify = (interpolation: string, prelude = "") =>
+    parse(`${prelude}\nconst Box = styled.div\`color: \${${interpolation}};\`;`)[0].interpolations![0];
+
+  it("should classify constants as static", () => {
+    expect(classify(`"red"`)).toMatchObject({ kind: "static", value: "red" });
+    expect(classify("BRAND", `const BRAND = "#f00";`)).toMatchObject({ kind: "static", value: "#f00" });
+  });
+
+  it("should classify conditionals on a prop", () => {
+    expect(classify(`(p) => (p.$active ? "blue" : "gray")`)).toMatchObject({
+      kind: "prop",
+      propName: "$active",
+      values: [true, false],
+      cases: { true: "blue" },
+      fallback: "gray",
+    });
+    expect(classify(`(p) => (p.size === "sm" ? "1px" : p.size === "lg" ? "3px" : "2px")`)).toMatchObject({
+      kind: "prop",
+      propName: "size",
+      values: ["sm", "lg"],
+      cases: { sm: "1px", lg: "3px" },
+      fallback: "2px",
+    });
+  });
+
+  it("should classify lookup maps and defaults", () => {
+    expect(classify(`({ tone }) => tones[tone]`, `const tones = { info: "blue", error: "red" };`)).toMatchObject({
+      kind: "prop",
+      propName: "tone",
+      values: ["info", "error"],
+      cases: { info: "blue", error: "red" },
+    });
+    expect(classify(`(p) => p.color ?? "black"`)).toMatchObject({
+      kind: "prop",
+      propName: "color",
+      fallback: "black",
+      passthrough: true,
+    });
+  });
+
+  it("should classify theme tokens", () => {
+    expect(classify(`(p) => p.theme.colors.primary`)).toMatchObject({ kind: "theme", token: "colors.primary" });
+    expect(classify(`({ theme }) => theme.space[2]`)).toMatchObject({ kind: "dynamic" });
+    expect(classify(`({ theme }) => theme.space.md`)).toMatchObject({ kind: "theme", token: "space.md" });
+  });
+
+  it("should classify anything else as dynamic", () => {
+    expect(classify(`(p) => p.width * 2 + "px"`)).toMatchObject({ kind: "dynamic" });
+    expect(classify(`getColor()`)).toMatchObject({ kind: "dynamic" });
+  });
+});
+
+describe("Static generation from classified interpolations", () => {
+  it("should render one class per prop value", () => {
+    const [component] = parse(`
+      const Badge = styled.span\`
+        color: \${(p) => (p.tone === "quiet" ? "gray" : "black")};
+        padding: \${(p) => ({ quiet: "2px", loud: "6px" })[p.tone]};
+      \`;
+    `);
+    const styles = generateStaticCSS(component);
+
+    expect(component.propPatterns).toEqual([{ propName: "tone", values: ["quiet", "loud"] }]);
+    expect(styles.map((style) => style.propCombination)).toEqual([{ tone: "quiet" }, { tone: "loud" }]);
+    expect(styles[0].css).toContain("color: gray");
+    expect(styles[0].css).toContain("padding: 2px");
+    expect(styles[1].css).toContain("color: black");
+    expect(styles[1].css).toContain("padding: 6px");
+  });
+
+  it("should leave theme and dynamic interpolations to the runtime", () => {
+    const [component] = parse("const Box = styled.div`color: ${(p) => p.theme.colors.text};`;");
+
+    expect(generateStaticCSS(component)).toEqual([]);
+  });
+});
@@ -0,0 +1,173 @@
+/** @jsxImportSource solid-js */
+import { describe, it, expect, afterEach } from "vitest";
+import { render, cleanup } from "@solidjs/testing-library";
+import { createSignal } from "solid-js";
+import { styled, enhanced, ThemeProvider } from "../src";
+import { objectToCss } from "../src/object-styles";
+import { parseStyledComponent } from "../lightning/extractor/parser";
+
+// The first class on a styled element is the raw hash whose <style> element holds its CSS
+const cssFor = (el: Element | null): string => {
+  const rawClass = el?.className.split(" ")[0] ?? "";
+  return document.getElementById(rawClass)?.textContent ?? "";
+};
+
+describe("objectToCss", () => {
+  it("should serialize properties like the equivalent template", () => {
+    expect(
+      objectToCss({
+        backgroundColor: "red",
+        fontSize: 14,
+        lineHeight: 1.5,
+        margin: 0,
+        "--gap": 4,
+        WebkitLineClamp: 2,
+        msTransform: "none",
+      })
+    ).toBe(
+      "background-color: red; font-size: 14px; line-height: 1.5; margin: 0; --gap: 4; -webkit-line-clamp: 2; -ms-transform: none;"
+    );
+  });
+
+  it("should skip empty values and expand arrays into fallbacks", () => {
+    expect(objectToCss({ color: undefined, border: false, display: ["flex", "grid"] })).toBe(
+      "display: flex; display: grid;"
+    );
+  });
+
+  it("should nest selectors and at-rules after the declarations", () => {
+    expect(
+      objectToCss({
+        "&:hover": { color: "blue" },
+        ":focus": { outline: "none" },
+        "> span": { margin: 4 },
+        "@media (min-width: 600px)": { padding: 16, "&:hover": { color: "green" } },
+        color: "red",
+      })
+    ).toBe(
+      "color: red; &:hover { color: blue; } &:focus { outline: none; } & > span { margin: 4px; } " +
+        "@media (min-width: 600px) { padding: 16px; &:hover { color: green; } }"
+    );
+  });
+
+  it("should prefix every selector of a list", () => {
+    expect(objectToCss({ ":hover, :focus": { color: "blue" }, "a, &.active": { margin: 0 } })).toBe(
+      "&:hover, &:focus { color: blue; } & a, &.active { margin: 0; }"
+    );
+  });
+});
+
+describe("styled object syntax", () => {
+  afterEach(() => {
+    cleanup();
+  });
+
+  it("should style an element from a static object", () => {
+    const Box = styled.div({
+      padding: 8,
+      "&:hover": { color: "blue" },
+    });
+
+    const { container } = render(() => <Box>Box</Box>);
+    const css = cssFor(container.querySelector("div"));
+
+    expect(css).toContain("padding: 8px;");
+    expect(css).toContain(":hover { color: blue; }");
+  });
+
+  it("should share the class of the equivalent template literal", () => {
+    const FromObject = styled.p({ marginTop: 12 });
+    const FromTemplate = styled.p`margin-top: 12px;`;
+
+    const { container } = render(() => (
+      <>
+        <FromObject />
+        <FromTemplate />
+      </>
+    ));
+    const [objectEl, templateEl] = Array.from(container.querySelectorAll("p"));
+
+    expect(objectEl.className).toBe(templateEl.className);
+  });
+
+  it("should evaluate function styles with props and theme", () => {
+    const Button = styled.button<{ $primary?: boolean }>((props) => ({
+      color: props.$primary ? props.theme.colors.primary : "black",
+    }));
+
+    const [primary, setPrimary] = createSignal(false);
+    const { container } = render(() => (
+      <ThemeProvider theme={{ colors: { primary: "rgb(0, 112, 243)" } }}>
+        <Button $primary={primary()}>Save</Button>
+      </ThemeProvider>
+    ));
+    const button = container.querySelector("button");
+
+    expect(cssFor(button)).toContain("color: black");
+
+    setPrimary(true);
+
+    expect(cssFor(button)).toContain("color: rgb(0, 112, 243)");
+  });
+
+  it("should style every state of a selector list key", () => {
+    const Link = styled.a({ ":hover, :focus": { color: "blue" } });
+    const { container } = render(() => <Link />);
+    const link = container.querySelector("a")!;
+    const rawClass = link.className.split(" ")[0];
+
+    expect(cssFor(link)).toContain(`.${rawClass}:hover`);
+    expect(cssFor(link)).toContain(`.${rawClass}:focus`);
+    expect(cssFor(link)).not.toContain(`.${rawClass} :focus`);
+  });
+
+  it("should render enhanced components whose function styles throw", () => {
+    const Broken = enhanced.span`
+      color: ${() => {
+        throw new Error("missing token");
+      }};
+      margin: 0;
+    `;
+
+    const { container } = render(() => <Broken>text</Broken>);
+
+    expect(container.querySelector("span")?.textContent).toBe("text");
+  });
+
+  it("should keep function-styled components with identical tags apart", () => {
+    const Red = styled.span(() => ({ color: "red" }));
+    const Blue = styled.span(() => ({ color: "blue" }));
+
+    expect(Red).not.toBe(Blue);
+  });
+});
+
+describe("Lightning extraction of object styles", () => {
+  it("should extract static objects as CSS", () => {
+    const [component] = parseStyledComponent(
+      `const Box = styled.div({
+        padding: 8,
+        "&:hover": { color: "blue" }, // hover state
+      });`,
+      "box.tsx"
+    );
+
+    expect(component.componentName).toBe("Box");
+    expect(component.styles).toBe("padding: 8px; &:hover { color: blue; }");
+  });
+
+  it("should detect prop patterns in function styles", () => {
+    const [component] = parseStyledComponent(
+      `type Props = { $variant: "primary" | "secondary" };
+      const Button = styled.button((p: Props) => ({
+        backgroundColor: p.$variant === "primary" ? "blue" : "gray",
+      }));`,
+      "button.tsx"
+    );
+
+    expect(component.styles).toBe(
+      'background-color: ${props => props.$variant === "primary" ? "blue" : "gray"};'
+    );
+    expect(component.propPatterns[0]).toMatchObject({ propName: "$variant", values: ["primary", "secondary"] });
+  });
+});
@@ -0,0 +1,136 @@
+/** @jsxImportSource solid-js */
+import { describe, it, expect, vi } from "vitest";
+import { render, screen, waitFor } from "@solidjs/testing-library";
+import { For, Show, createSignal } from "solid-js";
+import { Presence, registerExitAnimation } from "../animation/presence";
+import { animated } from "../animation/animatedStyled";
+
+// An exit animation the test finishes by hand
+const deferredExit = () => {
+  let finish = () => {};
+  const exit = vi.fn(() => new Promise<void>((resolve) => (finish = resolve)));
+  return { exit, finish: () => finish() };
+};
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("Presence", () => {
+  it("should keep a removed child until its exit finishes", async () => {
+    const { exit, finish } = deferredExit();
+    const onExitComplete = vi.fn();
+    const [open, setOpen] = createSignal(true);
+
+    render(() => (
+      <Presence custom="left" onExitComplete={onExitComplete}>
+        <Show when={open()}>
+          <div data-testid="panel" ref={(el) => registerExitAnimation(el, exit)} />
+        </Show>
+      </Presence>
+    ));
+
+    setOpen(false);
+    expect(screen.getByTestId("panel")).toBeInTheDocument();
+    expect(exit).toHaveBeenCalledWith("left");
+
+    finish();
+    await flush();
+    expect(screen.queryByTestId("panel")).toBeNull();
+    expect(onExitComplete).toHaveBeenCalledTimes(1);
+  });
+
+  it("should remove children without an exit animation immediately", () => {
+    const [open, setOpen] = createSignal(true);
+
+    render(() => (
+      <Presence>
+        <Show when={open()}>
+          <div data-testid="panel" />
+        </Show>
+      </Presence>
+    ));
+
+    setOpen(false);
+    expect(screen.queryByTestId("panel")).toBeNull();
+  });
+
+  it("should keep exiting list items in place while new ones enter", async () => {
+    const { exit, finish } = deferredExit();
+    const [items, setItems] = createSignal(["a", "b", "c"]);
+
+    const { container } = render(() => (
+      <Presence>
+        <For each={items()}>{(item) => <span ref={(el) => registerExitAnimation(el, exit)}>{item}</span>}</For>
+      </Presence>
+    ));
+
+    setItems(["a", "c", "d"]);
+    expect(container.textContent).toBe("abcd");
+
+    finish();
+    await flush();
+    expect(container.textContent).toBe("acd");
+  });
+
+  it("should hold new children in wait mode until the exits finish", async () => {
+    const { exit, finish } = deferredExit();
+    const [page, setPage] = createSignal("home");
+
+    const { container } = render(() => (
+      <Presence mode="wait">
+        <Show when={page()} keyed>
+          {(name) => <section ref={(el) => registerExitAnimation(el, exit)}>{name}</section>}
+        </Show>
+      </Presence>
+    ));
+
+    setPage("about");
+    expect(container.textContent).toBe("home");
+
+    finish();
+    await flush();
+    expect(container.textContent).toBe("about");
+  });
+
+  it("should take exiting children out of the layout in popLayout mode", () => {
+    const { exit } = deferredExit();
+    const [open, setOpen] = createSignal(true);
+
+    render(() => (
+      <Presence mode="popLayout">
+        <Show when={open()}>
+          <div data-testid="panel" ref={(el) => registerExitAnimation(el, exit)} />
+        </Show>
+      </Presence>
+    ));
+
+    setOpen(false);
+    expect(screen.getByTestId("panel").style.position).toBe("absolute");
+  });
+
+  it("should run the exit spring of animated components", async () => {
+    const Box = animated("div");
+    const [open, setOpen] = createSignal(true);
+    const onExitComplete = vi.fn();
+
+    render(() => (
+      <Presence custom={-1} onExitComplete={onExitComplete}>
+        <Show when={open()}>
+          <Box
+            data-testid="box"
+            exit={(direction: number) => ({ opacity: 0, x: direction * 20 })}
+            transition={{ stiffness: 1000, damping: 60 }}
+          />
+        </Show>
+      </Presence>
+    ));
+    await flush();
+
+    setOpen(false);
+    const box = screen.getByTestId("box");
+
+    await waitFor(() => expect(onExitComplete).toHaveBeenCalled(), { timeout: 3000 });
+    expect(box.style.opacity).toBe("0");
+    expect(box.style.transform).toContain("translateX(-20px)");
+    expect(screen.queryByTestId("box")).toBeNull();
+  });
+});
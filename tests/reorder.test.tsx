@@ -0,0 +1,142 @@
+/** @jsxImportSource solid-js */
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { fireEvent, render, screen } from "@solidjs/testing-library";
+import { For, createSignal } from "solid-js";
+import { Reorder, type ReorderAxis } from "../animation/reorder";
+
+// Items are laid out by their index: a column of 40px rows, or a grid of 50px cells
+let layout: "column" | "grid";
+const LAYOUT_PROPERTIES = ["offsetLeft", "offsetTop", "offsetWidth", "offsetHeight"] as const;
+
+const box = (element: HTMLElement) => {
+  const index = element.parentElement ? Array.from(element.parentElement.children).indexOf(element) : 0;
+  return layout === "column"
+    ? { offsetLeft: 0, offsetTop: index * 40, offsetWidth: 100, offsetHeight: 40 }
+    : { offsetLeft: (index % 2) * 50, offsetTop: Math.floor(index / 2) * 50, offsetWidth: 50, offsetHeight: 50 };
+};
+
+const renderList = (initial: string[], axis: ReorderAxis = "y") => {
+  const [values, setValues] = createSignal(initial);
+  render(() => (
+    <Reorder.Group axis={axis} values={values()} onReorder={setValues}>
+      <For each={values()}>
+        {(value) => (
+          <Reorder.Item value={value} data-testid={value}>
+            {value}
+          </Reorder.Item>
+        )}
+      </For>
+    </Reorder.Group>
+  ));
+  return values;
+};
+
+describe("Reorder", () => {
+  beforeEach(() => {
+    layout = "column";
+    for (const property of LAYOUT_PROPERTIES) {
+      Object.defineProperty(HTMLElement.prototype, property, {
+        configurable: true,
+        get(this: HTMLElement) {
+          return box(this)[property];
+        },
+      });
+    }
+  });
+
+  afterEach(() => {
+    for (const property of LAYOUT_PROPERTIES) {
+      delete (HTMLElement.prototype as any)[property];
+    }
+  });
+
+  it("should reorder when an item is dragged past the middle of its neighbour", () => {
+    const values = renderList(["a", "b", "c"]);
+    const item = screen.getByTestId("a");
+
+    fireEvent.mouseDown(item, { clientX: 0, clientY: 0 });
+    fireEvent.mouseMove(document, { clientX: 0, clientY: 30 });
+    expect(values()).toEqual(["a", "b", "c"]);
+
+    fireEvent.mouseMove(document, { clientX: 0, clientY: 45 });
+    expect(values()).toEqual(["b", "a", "c"]);
+    // The neighbour starts from where it was drawn and springs into its slot
+    expect(screen.getByTestId("b").style.transform).toContain("translate(0px, 40px)");
+
+    fireEvent.mouseMove(document, { clientX: 0, clientY: 90 });
+    expect(values()).toEqual(["b", "c", "a"]);
+    fireEvent.mouseUp(document);
+  });
+
+  it("should move focused items with the arrow keys of its axis", () => {
+    const values = renderList(["a", "b", "c"], "x");
+    const item = screen.getByTestId("b");
+    item.focus();
+
+    fireEvent.keyDown(item, { key: "ArrowUp" });
+    expect(values()).toEqual(["a", "b", "c"]);
+
+    fireEvent.keyDown(item, { key: "ArrowLeft" });
+    expect(values()).toEqual(["b", "a", "c"]);
+    expect(document.activeElement).toBe(item);
+
+    fireEvent.keyDown(item, { key: "ArrowLeft" });
+    expect(values()).toEqual(["b", "a", "c"]);
+  });
+
+  it("should move grid items by rows and columns", () => {
+    layout = "grid";
+    const values = renderList(["a", "b", "c", "d"], "grid");
+
+    fireEvent.keyDown(screen.getByTestId("a"), { key: "ArrowDown" });
+    expect(values()).toEqual(["b", "c", "a", "d"]);
+
+    fireEvent.keyDown(screen.getByTestId("d"), { key: "ArrowLeft" });
+    expect(values()).toEqual(["b", "c", "d", "a"]);
+  });
+
+  it("should drop a grid item on the cell under its center", () => {
+    layout = "grid";
+    const values = renderList(["a", "b", "c", "d"], "grid");
+
+    fireEvent.mouseDown(screen.getByTestId("a"), { clientX: 0, clientY: 0 });
+    fireEvent.mouseMove(document, { clientX: 50, clientY: 50 });
+    fireEvent.mouseUp(document);
+
+    expect(values()).toEqual(["b", "c", "d", "a"]);
+  });
+
+  it("should drag existing items along a new axis of the group", () => {
+    const [axis, setAxis] = createSignal<ReorderAxis>("y");
+    const [values, setValues] = createSignal(["a", "b", "c"]);
+    render(() => (
+      <Reorder.Group axis={axis()} values={values()} onReorder={setValues}>
+        <For each={values()}>{(value) => <Reorder.Item value={value} data-testid={value} />}</For>
+      </Reorder.Group>
+    ));
+    const drag = () => {
+      fireEvent.mouseDown(screen.getByTestId("a"), { clientX: 0, clientY: 0 });
+      fireEvent.mouseMove(document, { clientX: 60, clientY: 0 });
+      fireEvent.mouseUp(document);
+    };
+
+    drag();
+    expect(values()).toEqual(["a", "b", "c"]);
+
+    setAxis("x");
+    drag();
+    expect(values()).toEqual(["b", "c", "a"]);
+  });
+
+  it("should call a bound key handler with its data", () => {
+    const onKeyDown = vi.fn();
+    render(() => (
+      <Reorder.Group values={["a"]} onReorder={() => {}}>
+        <Reorder.Item value="a" data-testid="a" onKeyDown={[onKeyDown, "a"]} />
+      </Reorder.Group>
+    ));
+
+    fireEvent.keyDown(screen.getByTestId("a"), { key: "Enter" });
+    expect(onKeyDown).toHaveBeenCalledWith("a", expect.objectContaining({ key: "Enter" }));
+  });
+});
@@ -115,6 +115,7 @@ if (isBrowser) {
 
 // Add custom matchers that work in browser environment
 import { expect } from "vitest";
+import { styleMatchers, styleSerializer, type StyleRuleMatchers } from "../testing";
 
 // Extend expect with browser-compatible matchers
 expect.extend({
@@ -183,9 +184,13 @@ expect.extend({
   },
 });
 
+// Style assertions and snapshots from the public testing entry
+expect.extend(styleMatchers);
+expect.addSnapshotSerializer(styleSerializer);
+
 // Declare the extended matchers for TypeScript
 declare module "vitest" {
-  interface Assertion<T = any> {
+  interface Assertion<T = any> extends StyleRuleMatchers<T> {
     toBeInTheDocument(): T;
     toBeVisible(): T;
     toHaveStyle(style: string | Record<string, any>): T;
@@ -0,0 +1,109 @@
+/** @jsxImportSource solid-js */
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { render, screen, waitFor } from "@solidjs/testing-library";
+import { Show, createSignal } from "solid-js";
+import { LayoutAnimated } from "../animation/layout-components";
+import { animated } from "../animation/animatedStyled";
+
+// Layout of each test element by test id
+const RECTS: Record<string, { left: number; top: number; width: number; height: number }> = {
+  card: { left: 0, top: 0, width: 100, height: 40 },
+  modal: { left: 200, top: 100, width: 50, height: 20 },
+};
+
+describe("Shared layout animations", () => {
+  beforeEach(() => {
+    vi.stubGlobal(
+      "ResizeObserver",
+      class {
+        observe() {}
+        disconnect() {}
+      }
+    );
+    vi.spyOn(HTMLElement.prototype, "getBoundingClientRect").mockImplementation(function (this: HTMLElement) {
+      const rect = RECTS[this.dataset.testid ?? ""] ?? { left: 0, top: 0, width: 0, height: 0 };
+      return {
+        ...rect,
+        x: rect.left,
+        y: rect.top,
+        right: rect.left + rect.width,
+        bottom: rect.top + rect.height,
+      } as DOMRect;
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("should animate a new element from the one it replaces", async () => {
+    const [open, setOpen] = createSignal(false);
+    const onComplete = vi.fn();
+
+    render(() => (
+      <Show
+        when={open()}
+        fallback={<LayoutAnimated layoutId="hero" data-testid="card" style={{ "border-radius": "8px" }} />}
+      >
+        <LayoutAnimated
+          layoutId="hero"
+          data-testid="modal"
+          style={{ "border-radius": "4px" }}
+          layoutTransition={{ onLayoutAnimationComplete: onComplete }}
+        >
+          <p data-testid="title">Title</p>
+        </LayoutAnimated>
+      </Show>
+    ));
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    setOpen(true);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    const modal = screen.getByTestId("modal");
+    // The first frame covers the card: twice the modal's size, 8px corners
+    expect(modal.style.transform).toMatch(/^translate\(-\d+(\.\d+)?px, -\d+(\.\d+)?px\) scale\(/);
+    expect(screen.getByTestId("title").style.transform).toMatch(/^scale\(0\.5\d*, 0\.5\d*\)$/);
+
+    await waitFor(() => expect(onComplete).toHaveBeenCalled(), { timeout: 3000 });
+    expect(modal.style.transform).toBe("");
+    expect(modal.style.borderRadius).toBe("4px");
+  });
+
+  it("should not animate from an element removed long before", async () => {
+    const [open, setOpen] = createSignal(true);
+    const now = vi.spyOn(performance, "now");
+
+    render(() => (
+      <Show when={open()}>
+        <LayoutAnimated layoutId="stale" data-testid="card" />
+      </Show>
+    ));
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    setOpen(false);
+
+    now.mockReturnValue(performance.timeOrigin + 60_000);
+    render(() => <LayoutAnimated layoutId="stale" data-testid="modal" />);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(screen.getByTestId("modal").style.transform).toBe("");
+  });
+
+  it("should share layouts between animated components", async () => {
+    const Box = animated("div");
+    const [open, setOpen] = createSignal(false);
+
+    render(() => (
+      <Show when={open()} fallback={<Box layoutId="box" data-testid="card" />}>
+        <Box layoutId="box" data-testid="modal" />
+      </Show>
+    ));
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    setOpen(true);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(screen.getByTestId("modal").style.transform).toContain("scale(");
+  });
+});
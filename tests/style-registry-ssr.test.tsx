@@ -0,0 +1,100 @@
+/**
+ * @vitest-environment node
+ */
+import "./setup-ssr";
+import { describe, it, expect } from "vitest";
+import { renderToStream, renderToString } from "solid-js/web";
+import { Show, Suspense, createResource } from "solid-js";
+import { styled, createGlobalStyles, createStyleRegistry, StyleRegistryProvider, ThemeProvider } from "../src";
+
+const Title = styled.h1<{ tone: string }>`
+  color: ${(props) => props.tone};
+`;
+const Badge = styled.span<{ tone: string }>`
+  border-color: ${(props) => props.tone};
+`;
+
+// Rendered once its data arrives, after the shell was sent
+const LateBadge = (props: { tone: string; delay: number }) => {
+  const [tone] = createResource(
+    () => new Promise<string>((resolve) => setTimeout(() => resolve(props.tone), props.delay))
+  );
+  return <Show when={tone()}>{(value) => <Badge tone={value()}>badge</Badge>}</Show>;
+};
+
+const App = (props: { tone: string; delay: number }) => (
+  <html>
+    <head>
+      <title>Page</title>
+    </head>
+    <body>
+      <Title tone={props.tone}>title</Title>
+      <Suspense fallback={<p>loading</p>}>
+        <LateBadge tone={props.tone} delay={props.delay} />
+      </Suspense>
+    </body>
+  </html>
+);
+
+// Stream one request into its own registry and collect the response
+const renderRequest = (tone: string, delay: number): Promise<string> =>
+  new Promise((resolve) => {
+    const registry = createStyleRegistry();
+    let html = "";
+
+    renderToStream(() => (
+      <StyleRegistryProvider registry={registry}>
+        <App tone={tone} delay={delay} />
+      </StyleRegistryProvider>
+    )).pipe(
+      registry.wrapWritable({
+        write: (chunk) => (html += chunk),
+        end: () => resolve(html),
+      })
+    );
+  });
+
+const styleTags = (html: string): string[] => html.match(/<style data-ss="[^"]*">[\s\S]*?<\/style>/g) ?? [];
+
+describe("Style registries in streamed renders", () => {
+  it("should give each concurrent request only its own rules", async () => {
+    const [first, second] = await Promise.all([renderRequest("crimson", 30), renderRequest("teal", 10)]);
+
+    expect(styleTags(first).join("")).toContain("color: crimson;");
+    expect(styleTags(first).join("")).not.toContain("teal");
+    expect(styleTags(second).join("")).toContain("color: teal;");
+    expect(styleTags(second).join("")).not.toContain("crimson");
+  });
+
+  it("should put shell rules in the head and stream later rules with their chunk", async () => {
+    const html = await renderRequest("olive", 10);
+    const head = html.slice(0, html.indexOf("</head>"));
+    const rest = html.slice(html.indexOf("</head>"));
+
+    expect(styleTags(head).join("")).toMatch(/[^-]color: olive;/);
+    expect(styleTags(head).join("")).not.toContain("border-color");
+    expect(styleTags(rest).join("")).toContain("border-color: olive;");
+  });
+
+  it("should send dynamic global styles under the client's id with their values", () => {
+    const GlobalStyles = createGlobalStyles`
+      body {
+        color: ${(props) => props.theme.text};
+      }
+    `;
+    const registry = createStyleRegistry();
+
+    renderToString(() => (
+      <StyleRegistryProvider registry={registry}>
+        <ThemeProvider theme={{ text: "maroon" }}>
+          <GlobalStyles />
+        </ThemeProvider>
+      </StyleRegistryProvider>
+    ));
+
+    // The client hashes the same `var()` template, so it finds this tag on hydration
+    expect(registry.getStyleTags()).toContain(`global-${GlobalStyles}`);
+    expect(registry.getCss()).toContain("color: var(--global-var-0);");
+    expect(registry.getCss()).toContain(":root { --global-var-0: maroon; }");
+  });
+});
@@ -0,0 +1,204 @@
+/** @jsxImportSource solid-js */
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { render, cleanup } from "@solidjs/testing-library";
+import { createStyleRegistry, StyleRegistryProvider, registerStyle } from "../src/style-registry";
+
+// Registers its rule while rendering, like the server-side css()
+const Rule = (props: { id: string; rule: string }) => {
+  registerStyle(props.id, props.rule);
+  return null;
+};
+
+describe("Style registries", () => {
+  afterEach(() => {
+    cleanup();
+  });
+
+  it("should collect the rules rendered below the provider", () => {
+    const registry = createStyleRegistry();
+
+    render(() => (
+      <StyleRegistryProvider registry={registry}>
+        <Rule id="bau1" rule=".bau1 { color: red; }" />
+        <Rule id="bau2" rule=".bau2 { color: blue; }" />
+      </StyleRegistryProvider>
+    ));
+
+    expect(registry.getCss()).toBe(".bau1 { color: red; }\n.bau2 { color: blue; }");
+    expect(registry.getStyleTags()).toBe(
+      '<style data-ss="bau1 bau2">.bau1 { color: red; }\n.bau2 { color: blue; }</style>'
+    );
+  });
+
+  it("should keep concurrent renders apart", () => {
+    const first = createStyleRegistry();
+    const second = createStyleRegistry();
+
+    render(() => (
+      <>
+        <StyleRegistryProvider registry={first}>
+          <Rule id="bau3" rule=".bau3 { margin: 0; }" />
+        </StyleRegistryProvider>
+        <StyleRegistryProvider registry={second}>
+          <Rule id="bau4" rule=".bau4 { padding: 0; }" />
+        </StyleRegistryProvider>
+      </>
+    ));
+
+    expect(first.getCss()).toBe(".bau3 { margin: 0; }");
+    expect(second.getCss()).toBe(".bau4 { padding: 0; }");
+  });
+
+  it("should flush only the rules added since the previous flush", () => {
+    const registry = createStyleRegistry();
+
+    render(() => (
+      <StyleRegistryProvider registry={registry}>
+        <Rule id="bau5" rule=".bau5 { top: 0; }" />
+      </StyleRegistryProvider>
+    ));
+    const shell = registry.flush();
+
+    render(() => (
+      <StyleRegistryProvider registry={registry}>
+        <Rule id="bau5" rule=".bau5 { top: 0; }" />
+        <Rule id="bau6" rule=".bau6 { left: 0; }" />
+      </StyleRegistryProvider>
+    ));
+
+    expect(shell).toBe('<style data-ss="bau5">.bau5 { top: 0; }</style>');
+    expect(registry.flush()).toBe('<style data-ss="bau6">.bau6 { left: 0; }</style>');
+    expect(registry.flush()).toBe("");
+  });
+
+  it("should write new rules ahead of each streamed chunk", () => {
+    const registry = createStyleRegistry();
+    const written: string[] = [];
+    const writable = registry.wrapWritable({
+      write: (chunk) => written.push(chunk),
+      end: () => written.push("<end>"),
+    });
+
+    writable.write("<html>");
+    render(() => (
+      <StyleRegistryProvider registry={registry}>
+        <Rule id="bau7" rule=".bau7 { color: green; }" />
+      </StyleRegistryProvider>
+    ));
+    writable.write('<template id="pl-1"></template>');
+    writable.end();
+
+    expect(written).toEqual([
+      "<html>",
+      '<style data-ss="bau7">.bau7 { color: green; }</style><template id="pl-1"></template>',
+      "<end>",
+    ]);
+  });
+
+  it("should escape closing style tags inside rules", () => {
+    const registry = createStyleRegistry();
+
+    render(() => (
+      <StyleRegistryProvider registry={registry}>
+        <Rule id="bau8" rule='.bau8::after { content: "</style>"; }' />
+      </StyleRegistryProvider>
+    ));
+
+    expect(registry.getStyleTags()).toBe('<style data-ss="bau8">.bau8::after { content: "<\\/style>"; }</style>');
+  });
+
+  it("should forget every rule on reset", () => {
+    const registry = createStyleRegistry();
+
+    render(() => (
+      <StyleRegistryProvider registry={registry}>
+        <Rule id="bau9" rule=".bau9 { color: red; }" />
+      </StyleRegistryProvider>
+    ));
+    registry.flush();
+    registry.reset();
+
+    expect(registry.getCss()).toBe("");
+    expect(registry.flush()).toBe("");
+  });
+});
+
+describe("Hydration", () => {
+  afterEach(() => {
+    cleanup();
+    document.head.querySelectorAll("style[data-ss]").forEach((style) => style.remove());
+    vi.resetModules();
+  });
+
+  // A fresh runtime reads server tags at startup, like a page loading after SSR
+  const loadRuntime = async () => {
+    vi.resetModules();
+    return import("../src");
+  };
+
+  it("should reuse rules the server already sent", async () => {
+    const template = "color: rebeccapurple;";
+    const { css } = await loadRuntime();
+    const className = css([template] as unknown as TemplateStringsArray);
+    document.getElementById(className)?.remove();
+
+    document.head.insertAdjacentHTML(
+      "beforeend",
+      `<style data-ss="${className} kf-other">.${className} { color: rebeccapurple; }</style>`
+    );
+    const hydrated = await loadRuntime();
+
+    expect(hydrated.css([template] as unknown as TemplateStringsArray)).toBe(className);
+    expect(document.getElementById(className)).toBeNull();
+    expect(document.head.querySelectorAll("style[data-ss]")).toHaveLength(1);
+  });
+
+  it("should see server tags streamed in after the runtime started", async () => {
+    const template = "color: darkcyan;";
+    const { css } = await loadRuntime();
+    const className = css([template] as unknown as TemplateStringsArray);
+    document.getElementById(className)?.remove();
+
+    // The response is still streaming when the runtime injects its first rule
+    const readyState = vi.spyOn(document, "readyState", "get").mockReturnValue("loading");
+    const hydrated = await loadRuntime();
+    hydrated.css(["margin: 7px;"] as unknown as TemplateStringsArray);
+    document.body.insertAdjacentHTML(
+      "beforeend",
+      `<style data-ss="${className}">.${className} { color: darkcyan; }</style>`
+    );
+
+    expect(hydrated.css([template] as unknown as TemplateStringsArray)).toBe(className);
+    expect(document.getElementById(className)).toBeNull();
+
+    readyState.mockRestore();
+    window.dispatchEvent(new Event("load"));
+    document.body.querySelectorAll("style[data-ss]").forEach((style) => style.remove());
+  });
+
+  it("should reuse dynamic global styles the server sent", async () => {
+    const strings = ["body { color: ", "; }"] as unknown as TemplateStringsArray;
+    const tone = () => "navy";
+    const { createGlobalStyles } = await loadRuntime();
+    const styleId = `global-${createGlobalStyles(strings, tone)}`;
+    document.getElementById(styleId)?.remove();
+
+    document.head.insertAdjacentHTML(
+      "beforeend",
+      `<style data-ss="${styleId}">body { color: var(--global-var-0); }</style>`
+    );
+    const hydrated = await loadRuntime();
+
+    expect(`global-${hydrated.createGlobalStyles(strings, tone)}`).toBe(styleId);
+    expect(document.getElementById(styleId)).toBeNull();
+  });
+
+  it("should still inject rules the server did not send", async () => {
+    document.head.insertAdjacentHTML("beforeend", '<style data-ss="bau0">.bau0 { margin: 0; }</style>');
+    const { css } = await loadRuntime();
+
+    const className = css(["padding: 3px;"] as unknown as TemplateStringsArray);
+
+    expect(document.getElementById(className)).not.toBeNull();
+  });
+});
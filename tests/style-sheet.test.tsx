@@ -0,0 +1,233 @@
+/** @jsxImportSource solid-js */
+import { describe, it, expect, afterEach } from "vitest";
+import { render, cleanup } from "@solidjs/testing-library";
+import { render as renderInto } from "solid-js/web";
+import { styled, css, keyframes, setup, createGlobalStyles, StyleTarget } from "../src";
+import { compileCssRules } from "../src/css-compiler";
+import { StyleSheet, getDocumentStyleSheet, getRootStyleSheet } from "../src/style-sheet";
+
+const ruleTexts = (sheet: CSSStyleSheet): string[] => Array.from(sheet.cssRules).map((rule) => rule.cssText);
+
+describe("Rule splitting", () => {
+  it("should keep each top-level rule separate", () => {
+    expect(compileCssRules(".btn", "color: red; &:hover { color: blue; } @media print { display: none; }")).toEqual([
+      ".btn { color: red; }",
+      ".btn:hover { color: blue; }",
+      "@media print { .btn { display: none; } }",
+    ]);
+  });
+});
+
+describe("Readable injection", () => {
+  afterEach(() => {
+    cleanup();
+  });
+
+  it("should give every class its own readable <style> by default", () => {
+    const className = css`
+      color: teal;
+    `;
+
+    expect(getDocumentStyleSheet().speedy).toBe(false);
+    expect(document.getElementById(className)?.textContent).toBe(`.${className}, .sc-${className} { color: teal; }`);
+  });
+
+  it("should inject rules again after their <style> was removed", () => {
+    const sheet = new StyleSheet(document);
+    sheet.insert("readable-test", [".readable-test { color: olive; }"]);
+    document.getElementById("readable-test")!.remove();
+
+    expect(sheet.has("readable-test")).toBe(false);
+    sheet.insert("readable-test", [".readable-test { color: olive; }"]);
+    expect(document.getElementById("readable-test")?.textContent).toBe(".readable-test { color: olive; }");
+  });
+});
+
+describe("Speedy injection", () => {
+  afterEach(() => {
+    cleanup();
+    setup(null, null, { speedy: false });
+  });
+
+  it("should insert rules into one shared stylesheet", () => {
+    setup(null, null, { speedy: true });
+    const styleCount = document.querySelectorAll("style").length;
+
+    const Button = styled.button`
+      color: navy;
+      &:hover {
+        color: blue;
+      }
+    `;
+    const Link = styled.a`
+      color: purple;
+    `;
+
+    const { container } = render(() => (
+      <>
+        <Button />
+        <Link />
+      </>
+    ));
+    const buttonClass = container.querySelector("button")!.className.split(" ")[0];
+    const rules = ruleTexts(getDocumentStyleSheet().getSheet());
+
+    expect(document.getElementById(buttonClass)).toBeNull();
+    expect(document.querySelectorAll("style").length).toBeLessThanOrEqual(styleCount + 1);
+    expect(rules.some((rule) => rule.includes(`.${buttonClass}:hover`))).toBe(true);
+    expect(rules.some((rule) => rule.includes("purple"))).toBe(true);
+  });
+
+  it("should insert the same rules only once", () => {
+    setup(null, null, { speedy: true });
+    const sheet = getDocumentStyleSheet().getSheet();
+
+    const first = css`
+      margin: 3px;
+    `;
+    const count = sheet.cssRules.length;
+    const second = css`
+      margin: 3px;
+    `;
+
+    expect(second).toBe(first);
+    expect(sheet.cssRules.length).toBe(count);
+  });
+
+  it("should insert keyframes", () => {
+    setup(null, null, { speedy: true });
+
+    const name = keyframes`
+      from { opacity: 0; }
+      to { opacity: 1; }
+    `;
+
+    expect(document.getElementById(`kf-${name}`)).toBeNull();
+    expect(ruleTexts(getDocumentStyleSheet().getSheet()).some((rule) => rule.includes(`@keyframes ${name}`))).toBe(
+      true
+    );
+  });
+
+  it("should keep the stylesheet when setup() repeats the mode", () => {
+    setup(null, null, { speedy: true });
+    const sheet = getDocumentStyleSheet();
+
+    setup(null, null, { speedy: true });
+
+    expect(getDocumentStyleSheet()).toBe(sheet);
+  });
+
+  it("should track ids per stylesheet", () => {
+    const sheet = new StyleSheet(document, true);
+    sheet.insert("sheet-test", [".sheet-test { color: red; }"]);
+    sheet.insert("sheet-test", [".sheet-test { color: red; }"]);
+
+    expect(sheet.has("sheet-test")).toBe(true);
+    expect(sheet.getSheet().cssRules.length).toBe(1);
+  });
+});
+
+describe("Shadow root targets", () => {
+  const createRoot = (): ShadowRoot => {
+    const host = document.createElement("div");
+    document.body.appendChild(host);
+    return host.attachShadow({ mode: "open" });
+  };
+
+  // Rules a root holds, whether in <style> tags or a speedy stylesheet
+  const rootCss = (root: ShadowRoot): string => {
+    const sheet = getRootStyleSheet(root);
+    return sheet.speedy
+      ? ruleTexts(sheet.getSheet()).join("\n")
+      : Array.from(root.querySelectorAll("style"))
+          .map((style) => style.textContent)
+          .join("\n");
+  };
+
+  afterEach(() => {
+    document.body.innerHTML = "";
+  });
+
+  it("should inject the styles of its children into the shadow root", () => {
+    const root = createRoot();
+    const Card = styled.article`
+      border: 1px solid olive;
+    `;
+
+    const dispose = renderInto(
+      () => (
+        <StyleTarget target={root}>
+          <Card />
+        </StyleTarget>
+      ),
+      root
+    );
+    const rawClass = root.querySelector("article")!.className.split(" ")[0];
+
+    expect(rootCss(root)).toContain(`.${rawClass}, .sc-${rawClass} { border: 1px solid olive; }`);
+    expect(document.getElementById(rawClass)).toBeNull();
+    dispose();
+  });
+
+  it("should give every root its own cache", () => {
+    const first = createRoot();
+    const second = createRoot();
+    const Badge = styled.span`
+      color: orange;
+    `;
+
+    const disposeFirst = renderInto(
+      () => (
+        <StyleTarget target={first}>
+          <Badge />
+        </StyleTarget>
+      ),
+      first
+    );
+    const disposeSecond = renderInto(
+      () => (
+        <StyleTarget target={second}>
+          <Badge />
+        </StyleTarget>
+      ),
+      second
+    );
+
+    expect(getRootStyleSheet(first)).not.toBe(getRootStyleSheet(second));
+    expect(rootCss(first)).toContain("color: orange;");
+    expect(rootCss(second)).toContain("color: orange;");
+    disposeFirst();
+    disposeSecond();
+  });
+
+  it("should add global styles to the shadow root while mounted", () => {
+    const root = createRoot();
+    const HostStyles = createGlobalStyles`
+      :host { display: block; }
+    `;
+
+    const dispose = renderInto(
+      () => (
+        <StyleTarget target={root}>
+          <HostStyles />
+        </StyleTarget>
+      ),
+      root
+    );
+
+    expect(rootCss(root)).toContain(":host { display: block; }");
+    dispose();
+    expect(rootCss(root)).not.toContain(":host");
+  });
+
+  it("should remove speedy rules by id", () => {
+    const sheet = new StyleSheet(document, true);
+    sheet.insert("kept", [".kept { color: red; }"]);
+    sheet.insert("removed", [".removed { color: blue; }", ".removed:hover { color: navy; }"]);
+
+    sheet.remove("removed");
+
+    expect(sheet.has("removed")).toBe(false);
+    expect(ruleTexts(sheet.getSheet())).toEqual([".kept {color: red;}"]);
+  });
+});
@@ -0,0 +1,96 @@
+/** @jsxImportSource solid-js */
+import { describe, it, expect, afterEach } from "vitest";
+import { render, cleanup } from "@solidjs/testing-library";
+import { createSignal } from "solid-js";
+import { styled } from "../src";
+
+// The first class on a styled element is the raw hash whose <style> element holds its CSS
+const cssFor = (el: Element | null): string => {
+  const rawClass = el?.className.split(" ")[0] ?? "";
+  return document.getElementById(rawClass)?.textContent ?? "";
+};
+
+describe("styled .attrs()", () => {
+  afterEach(() => {
+    cleanup();
+  });
+
+  it("should add static attributes", () => {
+    const Button = styled.button.attrs({ type: "button" })`
+      padding: 4px;
+    `;
+
+    const { container } = render(() => <Button>Click</Button>);
+
+    expect(container.querySelector("button")?.getAttribute("type")).toBe("button");
+  });
+
+  it("should let attributes override the props they are given", () => {
+    const Button = styled.button.attrs({ type: "button" })`
+      padding: 4px;
+    `;
+
+    const { container } = render(() => <Button type="submit">Send</Button>);
+
+    expect(container.querySelector("button")?.getAttribute("type")).toBe("button");
+  });
+
+  it("should derive attributes from props reactively", () => {
+    const Toggle = styled.button.attrs<{ active?: boolean }>((props) => ({
+      "aria-pressed": props.active ? "true" : "false",
+    }))`
+      padding: 4px;
+    `;
+
+    const [active, setActive] = createSignal(false);
+    const { container } = render(() => <Toggle active={active()}>Toggle</Toggle>);
+    const button = container.querySelector("button");
+
+    expect(button?.getAttribute("aria-pressed")).toBe("false");
+
+    setActive(true);
+
+    expect(button?.getAttribute("aria-pressed")).toBe("true");
+  });
+
+  it("should expose attributes to interpolations", () => {
+    const Input = styled.input.attrs<{ size?: string }>((props) => ({
+      size: props.size ?? "1em",
+    }))`
+      padding: ${(props: any) => props.size};
+    `;
+
+    const { container } = render(() => <Input />);
+
+    expect(cssFor(container.querySelector("input"))).toContain("padding: 1em");
+  });
+
+  it("should apply chained attrs in order", () => {
+    const Link = styled.a
+      .attrs({ target: "_blank", rel: "noopener" })
+      .attrs((props: any) => ({ rel: `${props.rel} noreferrer` }))`
+      color: inherit;
+    `;
+
+    const { container } = render(() => <Link href="/docs">Docs</Link>);
+    const link = container.querySelector("a");
+
+    expect(link?.getAttribute("target")).toBe("_blank");
+    expect(link?.getAttribute("rel")).toBe("noopener noreferrer");
+  });
+
+  it("should let outer attrs win when extending a styled component", () => {
+    const TextInput = styled.input.attrs({ type: "text" })`
+      border: 1px solid;
+    `;
+    const PasswordInput = styled(TextInput).attrs({ type: "password" })`
+      letter-spacing: 2px;
+    `;
+
+    const { container } = render(() => <PasswordInput />);
+    const input = container.querySelector("input");
+
+    expect(input?.getAttribute("type")).toBe("password");
+    expect(input?.hasAttribute("__styledAttrsResolved")).toBe(false);
+  });
+});
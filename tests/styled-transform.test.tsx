@@ -0,0 +1,126 @@
+/** @jsxImportSource solid-js */
+import { describe, it, expect } from "vitest";
+import { parseModule, componentIdFor } from "../lightning/extractor/ast";
+import { minifyTemplateChunks, transformStyled, styledTransformPlugin } from "../lightning/transforms/vite-plugin";
+import { lightningCSSPlugin } from "../lightning/transforms/vinxi-plugin";
+import { parseStyledComponent } from "../lightning/extractor/parser";
+import { extractComponentSource } from "../plugins/source-maps";
+
+const SOURCE = `
+import { styled } from "solid-styles";
+
+export const Button = styled.button<{ primary?: boolean }>\`
+  color: red;   /* brand */
+  &:hover {
+    color: blue;
+  }
+\`;
+const Link = styled(Button).attrs({ role: "link" })\`
+  margin: \${(props) => props.gap} \${(props) => props.gap};
+\`;
+const Box = styled.div({ padding: 4 });
+const Card = styled.article.withConfig({ componentId: "Card-1" })\`padding: 8px;\`;
+`;
+
+describe("Styled declarations", () => {
+  it("should find every styled declaration in one parse", () => {
+    const { styled } = parseModule(SOURCE, "src/button.tsx");
+
+    expect(styled.map((declaration) => [declaration.componentName, declaration.tag])).toEqual([
+      ["Button", "button"],
+      ["Link", "Button"],
+      ["Box", "div"],
+      ["Card", "article"],
+    ]);
+    expect(styled[1].chain.map((call) => call.name)).toEqual(["attrs"]);
+    expect(styled[0]).toMatchObject({ line: 4, column: 23 });
+  });
+
+  it("should reuse the parse while the code is unchanged", () => {
+    expect(parseModule(SOURCE, "src/button.tsx")).toBe(parseModule(SOURCE, "src/button.tsx"));
+  });
+
+  it("should derive the component id from the file path relative to the working directory", () => {
+    expect(componentIdFor("Button", `${process.cwd()}/src/button.tsx`)).toBe(
+      componentIdFor("Button", "src/button.tsx")
+    );
+    expect(componentIdFor("Button", "src/button.tsx")).not.toBe(componentIdFor("Button", "src/link.tsx"));
+  });
+});
+
+describe("Template minification", () => {
+  it("should collapse whitespace and drop comments", () => {
+    expect(minifyTemplateChunks(["\n  color: red; /* brand */\n  &:hover {\n    color: blue;\n  }\n"])).toEqual([
+      "color:red;&:hover{color:blue;}",
+    ]);
+  });
+
+  it("should keep spaces around interpolations and inside strings", () => {
+    expect(minifyTemplateChunks(["\n  margin: ", " ", ";\n  content: '  a  ';\n"])).toEqual([
+      "margin:",
+      " ",
+      ";content:'  a  ';",
+    ]);
+  });
+});
+
+describe("Styled transform", () => {
+  it("should add displayName, componentId and a pure annotation", () => {
+    const code = transformStyled(SOURCE, "src/button.tsx", { minify: false })!;
+    const id = componentIdFor("Button", "src/button.tsx");
+
+    expect(code).toContain(
+      `export const Button = /*#__PURE__*/styled.button.withConfig({ displayName: "Button", componentId: "${id}" })<{ primary?: boolean }>\``
+    );
+    expect(code).toContain(`/*#__PURE__*/styled(Button).withConfig({ displayName: "Link"`);
+    expect(code).toContain(`/*#__PURE__*/styled.div.withConfig({ displayName: "Box"`);
+    expect(code).toContain(`styled.article.withConfig({ displayName: "Card" }).withConfig({ componentId: "Card-1" })`);
+  });
+
+  it("should minify the templates", () => {
+    const code = transformStyled(SOURCE, "src/button.tsx", { displayName: false, componentId: false, pure: false })!;
+
+    expect(code).toContain("styled.button<{ primary?: boolean }>`color:red;&:hover{color:blue;}`");
+    expect(code).toContain("`margin:${(props) => props.gap} ${(props) => props.gap};`");
+  });
+
+  it("should leave modules without styled declarations alone", () => {
+    expect(transformStyled("const a = css`color: red;`;", "src/a.ts")).toBeNull();
+  });
+
+  it("should run as a Vite plugin before JSX compilation", () => {
+    const plugin = styledTransformPlugin();
+    plugin.configResolved!({ isProduction: false });
+    const result = plugin.transform!(SOURCE, "/project/src/button.tsx?v=1");
+
+    expect(plugin.enforce).toBe("pre");
+    expect(result?.code).toContain("color: red;   /* brand */");
+    expect(result?.code).toContain(`displayName: "Button"`);
+    expect(plugin.transform!(SOURCE, "/project/node_modules/lib/button.tsx")).toBeNull();
+  });
+
+  it("should return a source map of its edits", () => {
+    const result = styledTransformPlugin().transform!(SOURCE, "/project/src/button.tsx");
+
+    expect(result?.map).toMatchObject({ sources: ["/project/src/button.tsx"], sourcesContent: [SOURCE] });
+    expect(result?.map.mappings).not.toBe("");
+  });
+});
+
+describe("Shared parse", () => {
+  it("should give the Lightning extractor and the transform the same component ids", async () => {
+    const result = await lightningCSSPlugin({ transform: { minify: false } }).transform!(SOURCE, "src/button.tsx");
+    const components = parseStyledComponent(SOURCE, "src/button.tsx");
+    const box = components.find((component) => component.componentName === "Box")!;
+
+    expect(result?.code).toContain(`styled.div.withConfig({ displayName: "Box", componentId: "${box.componentId}" })`);
+    expect(result?.map).toMatchObject({ sources: ["src/button.tsx"], sourcesContent: [SOURCE] });
+  });
+
+  it("should locate components for source maps", () => {
+    const [button] = extractComponentSource(SOURCE, "src/button.tsx");
+
+    expect(button).toMatchObject({ name: "Button", line: 4, column: 23 });
+    expect(button.css).toContain("color: red;");
+  });
+});
@@ -0,0 +1,95 @@
+/** @jsxImportSource solid-js */
+import { describe, it, expect, afterEach } from "vitest";
+import { render, cleanup } from "@solidjs/testing-library";
+import { styled, css, keyframes, setup } from "../src";
+import { getStyleRules, styleSerializer } from "../testing";
+
+describe("Testing utilities", () => {
+  afterEach(() => {
+    cleanup();
+    setup(null, null, { speedy: false });
+  });
+
+  it("should leave String.prototype untouched", () => {
+    const className = css`
+      color: salmon;
+    `;
+
+    expect(className.includes("salmon")).toBe(false);
+    expect(className.indexOf("salmon")).toBe(-1);
+  });
+
+  it("should return the rules generated for a class", () => {
+    const className = css`
+      color: coral;
+      &:hover {
+        color: tomato;
+      }
+    `;
+
+    expect(getStyleRules(className)).toEqual([
+      `.${className}, .sc-${className} { color: coral; }`,
+      `.${className}:hover, .sc-${className}:hover { color: tomato; }`,
+    ]);
+  });
+
+  it("should return the rule of a keyframes name", () => {
+    const spin = keyframes`
+      to { transform: rotate(360deg); }
+    `;
+
+    expect(getStyleRules(spin)).toEqual([`@keyframes ${spin} { to { transform: rotate(360deg); } }`]);
+  });
+
+  it("should match rules on an element by modifier and media", () => {
+    const Button = styled.button`
+      color: navy;
+      padding: 4px;
+      &:hover {
+        color: blue;
+      }
+      @media (min-width: 768px) {
+        padding: 8px;
+      }
+    `;
+
+    const { container } = render(() => <Button />);
+    const button = container.querySelector("button");
+
+    expect(button).toHaveStyleRule("color", "navy");
+    expect(button).toHaveStyleRule("color", "blue", { modifier: ":hover" });
+    expect(button).toHaveStyleRule("padding", "8px", { media: "(min-width:768px)" });
+    expect(button).toHaveStyleRule("color", /^na/);
+    expect(button).toHaveStyleRule("padding", expect.stringContaining("4"));
+    expect(button).not.toHaveStyleRule("color", "red");
+    expect(button).toHaveStyleRule("margin", undefined);
+  });
+
+  it("should read rules inserted in speedy mode", () => {
+    setup(null, null, { speedy: true });
+
+    const className = css`
+      border-width: 3px;
+    `;
+
+    expect(document.getElementById(className)).toBeNull();
+    expect(className).toHaveStyleRule("border-width", "3px");
+  });
+
+  it("should print the CSS of a subtree above its markup", () => {
+    const Label = styled.span`
+      font-weight: 600;
+    `;
+
+    const { container } = render(() => (
+      <div>
+        <Label>Name</Label>
+      </div>
+    ));
+    const labelClass = container.querySelector("span")!.className.split(" ")[0];
+    const printed = styleSerializer.serialize(container, {}, "", 0, [], () => "<markup>");
+
+    expect(styleSerializer.test(container)).toBe(true);
+    expect(printed).toBe(`.${labelClass}, .sc-${labelClass} { font-weight: 600; }\n\n<markup>`);
+  });
+});
@@ -0,0 +1,244 @@
+/** @jsxImportSource solid-js */
+import { describe, it, expect, afterEach } from "vitest";
+import { render, cleanup } from "@solidjs/testing-library";
+import { createSignal } from "solid-js";
+import { styled, createGlobalStyles, ThemeProvider, useTheme, mergeThemes } from "../src";
+import { CSSVariableManager } from "../lightning/runtime/css-variables";
+
+// The first class on a styled element is the raw hash whose <style> element holds its CSS
+const cssFor = (el: Element | null): string => {
+  const rawClass = el?.className.split(" ")[0] ?? "";
+  return document.getElementById(rawClass)?.textContent ?? "";
+};
+
+describe("ThemeProvider", () => {
+  afterEach(() => {
+    cleanup();
+  });
+
+  it("should pass the provider theme to styled interpolations", () => {
+    const Button = styled.button`
+      color: ${(props: any) => props.theme.colors.primary};
+    `;
+
+    const { container } = render(() => (
+      <ThemeProvider theme={{ colors: { primary: "rgb(1, 2, 3)" } }}>
+        <Button>Themed</Button>
+      </ThemeProvider>
+    ));
+
+    expect(cssFor(container.querySelector("button"))).toContain("color: rgb(1, 2, 3)");
+  });
+
+  it("should deeply merge nested providers", () => {
+    const Box = styled.div`
+      color: ${(props: any) => props.theme.colors.primary};
+      background: ${(props: any) => props.theme.colors.surface};
+    `;
+
+    const { container } = render(() => (
+      <ThemeProvider theme={{ colors: { primary: "red", surface: "white" } }}>
+        <ThemeProvider theme={{ colors: { surface: "black" } }}>
+          <Box />
+        </ThemeProvider>
+      </ThemeProvider>
+    ));
+
+    const css = cssFor(container.querySelector("div"));
+    expect(css).toContain("color: red");
+    expect(css).toContain("background: black");
+  });
+
+  it("should let an explicit theme prop override the context", () => {
+    const Label = styled.span`
+      color: ${(props: any) => props.theme.colors.primary};
+    `;
+
+    const { container } = render(() => (
+      <ThemeProvider theme={{ colors: { primary: "red" } }}>
+        <Label theme={{ colors: { primary: "green" } }}>Label</Label>
+      </ThemeProvider>
+    ));
+
+    const span = container.querySelector("span");
+    expect(cssFor(span)).toContain("color: green");
+    expect(span?.hasAttribute("theme")).toBe(false);
+  });
+
+  it("should update styles reactively without remounting", () => {
+    const Card = styled.section`
+      color: ${(props: any) => props.theme.text};
+    `;
+
+    const [dark, setDark] = createSignal(false);
+    const { container } = render(() => (
+      <ThemeProvider theme={dark() ? { text: "white" } : { text: "black" }}>
+        <Card>Content</Card>
+      </ThemeProvider>
+    ));
+
+    const section = container.querySelector("section");
+    const lightClass = section?.className;
+    expect(cssFor(section)).toContain("color: black");
+
+    setDark(true);
+
+    expect(container.querySelector("section")).toBe(section);
+    expect(section?.className).not.toBe(lightClass);
+    expect(cssFor(section)).toContain("color: white");
+  });
+
+  it("should expose the current theme through useTheme", () => {
+    let read: (() => Record<string, any>) | undefined;
+    const Reader = () => {
+      read = useTheme();
+      return null;
+    };
+
+    render(() => (
+      <ThemeProvider theme={{ spacing: { md: "1rem" } }}>
+        <ThemeProvider theme={(outer) => ({ ...outer, radius: "4px" })}>
+          <Reader />
+        </ThemeProvider>
+      </ThemeProvider>
+    ));
+
+    expect(read?.()).toEqual({ spacing: { md: "1rem" }, radius: "4px" });
+  });
+
+  it("should resolve to an empty theme without a provider", () => {
+    let read: (() => Record<string, any>) | undefined;
+    const Reader = () => {
+      read = useTheme();
+      return null;
+    };
+
+    render(() => <Reader />);
+
+    expect(read?.()).toEqual({});
+  });
+
+  it("should merge plain objects and replace other values", () => {
+    const merged = mergeThemes(
+      { colors: { primary: "red", secondary: "blue" }, breakpoints: ["40em", "52em"] },
+      { colors: { primary: "green" }, breakpoints: ["30em"] }
+    );
+
+    expect(merged).toEqual({ colors: { primary: "green", secondary: "blue" }, breakpoints: ["30em"] });
+  });
+
+  it("should pass the provider theme to dynamic global styles", () => {
+    const GlobalStyles = createGlobalStyles`
+      body {
+        color: ${(props) => props.theme.colors.text};
+      }
+    `;
+
+    render(() => (
+      <ThemeProvider theme={{ colors: { text: "rgb(10, 20, 30)" } }}>
+        <GlobalStyles />
+      </ThemeProvider>
+    ));
+
+    expect(document.documentElement.style.getPropertyValue("--global-var-0")).toBe("rgb(10, 20, 30)");
+  });
+});
+
+describe("Theme CSS variables", () => {
+  it("should reference theme tokens under the names they are applied with", () => {
+    const manager = new CSSVariableManager({ prefix: "--ds" });
+    const element = document.createElement("div");
+
+    manager.applyThemeVariables({ colors: { primary: "#007bff" } }, element);
+
+    expect(manager.getThemeVariableName("colors.primary")).toBe("--ds-colors-primary");
+    expect(element.style.getPropertyValue("--ds-colors-primary")).toBe("#007bff");
+    expect(manager.getThemeVariable("colors.primary")).toBe("var(--ds-colors-primary)");
+    expect(manager.getThemeVariable("colors.accent", "red")).toBe("var(--ds-colors-accent, red)");
+  });
+});
+
+describe("ThemeProvider cssVariables mode", () => {
+  afterEach(() => {
+    cleanup();
+  });
+
+  it("should compile the theme into custom properties on a scope element", () => {
+    const Button = styled.button`
+      color: ${(props: any) => props.theme.colors.primary};
+    `;
+
+    const { container } = render(() => (
+      <ThemeProvider theme={{ colors: { primary: "#0070f3" } }} cssVariables={{ prefix: "ds" }}>
+        <Button>Themed</Button>
+      </ThemeProvider>
+    ));
+
+    const scope = container.querySelector("[data-theme-scope]") as HTMLElement;
+    expect(scope.style.getPropertyValue("--ds-colors-primary")).toBe("#0070f3");
+    expect(scope.style.display).toBe("contents");
+    expect(cssFor(container.querySelector("button"))).toContain("color: var(--ds-colors-primary)");
+  });
+
+  it("should swap themes per subtree without generating new CSS", () => {
+    const Card = styled.article`
+      background: ${(props: any) => props.theme.colors.surface};
+    `;
+    const light = { colors: { surface: "white" } };
+    const dark = { colors: { surface: "black" } };
+
+    const [isDark, setDark] = createSignal(false);
+    const { container } = render(() => (
+      <ThemeProvider theme={light} cssVariables>
+        <Card>Outer</Card>
+        <ThemeProvider theme={isDark() ? dark : light} cssVariables>
+          <Card>Inner</Card>
+        </ThemeProvider>
+      </ThemeProvider>
+    ));
+
+    const [outerCard, innerCard] = Array.from(container.querySelectorAll("article"));
+    const [outerScope, innerScope] = Array.from(container.querySelectorAll<HTMLElement>("[data-theme-scope]"));
+    const classBefore = innerCard.className;
+    const styleCount = document.head.querySelectorAll("style").length;
+
+    setDark(true);
+
+    expect(innerScope.style.getPropertyValue("--styled-colors-surface")).toBe("black");
+    expect(outerScope.style.getPropertyValue("--styled-colors-surface")).toBe("white");
+    expect(innerCard.className).toBe(classBefore);
+    expect(outerCard.className).toBe(classBefore);
+    expect(document.head.querySelectorAll("style").length).toBe(styleCount);
+  });
+
+  it("should keep real values available through useTheme", () => {
+    let read: (() => Record<string, any>) | undefined;
+    const Reader = () => {
+      read = useTheme();
+      return null;
+    };
+
+    render(() => (
+      <ThemeProvider theme={{ colors: { primary: "red" } }} cssVariables>
+        <Reader />
+      </ThemeProvider>
+    ));
+
+    expect(read?.()).toEqual({ colors: { primary: "red" } });
+  });
+
+  it("should compile nested tokens and arrays", () => {
+    const manager = new CSSVariableManager({ prefix: "app" });
+    const { variables, tokens } = manager.compileTheme({
+      space: [0, 4],
+      fonts: { body: "Inter" },
+    });
+
+    expect(variables).toEqual({ "--app-space-0": "0", "--app-space-1": "4", "--app-fonts-body": "Inter" });
+    expect(tokens).toEqual({
+      space: ["var(--app-space-0)", "var(--app-space-1)"],
+      fonts: { body: "var(--app-fonts-body)" },
+    });
+  });
+});
+
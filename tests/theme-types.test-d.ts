@@ -0,0 +1,24 @@
+import { describe, it, expectTypeOf } from "vitest";
+import { useTheme, type Theme, type ThemeTokenPath } from "../src";
+
+declare module "../src" {
+  interface DefaultTheme {
+    colors: { primary: string; surface: string };
+    spacing: { sm: string };
+  }
+}
+
+describe("DefaultTheme augmentation", () => {
+  it("should type the theme from the augmented interface", () => {
+    expectTypeOf<Theme>().not.toBeAny();
+    expectTypeOf<Theme["colors"]["primary"]>().toEqualTypeOf<string>();
+    expectTypeOf(useTheme()).returns.toEqualTypeOf<Theme>();
+  });
+
+  it("should reject unknown tokens", () => {
+    const theme = {} as Theme;
+    // @ts-expect-error - not a token of the augmented theme
+    void theme.colors.missing;
+    expectTypeOf<ThemeTokenPath>().toEqualTypeOf<"colors.primary" | "colors.surface" | "spacing.sm">();
+  });
+});
@@ -0,0 +1,124 @@
+/** @jsxImportSource solid-js */
+import { describe, it, expect, afterEach } from "vitest";
+import { render, cleanup } from "@solidjs/testing-library";
+import { styled } from "../src";
+import { RuntimeResolver } from "../lightning/runtime/resolver";
+import type { ExtractedStyle } from "../lightning/types";
+
+// The first class on a styled element is the raw hash whose <style> element holds its CSS
+const cssFor = (el: Element | null): string => {
+  const rawClass = el?.className.split(" ")[0] ?? "";
+  return document.getElementById(rawClass)?.textContent ?? "";
+};
+
+describe("Transient props", () => {
+  afterEach(() => {
+    cleanup();
+  });
+
+  it("should style from $props without rendering them", () => {
+    const Button = styled.button`
+      color: ${(props: any) => (props.$variant === "danger" ? "red" : "black")};
+    `;
+
+    const { container } = render(() => <Button $variant="danger">Delete</Button>);
+    const button = container.querySelector("button");
+
+    expect(cssFor(button)).toContain("color: red");
+    expect(button?.hasAttribute("$variant")).toBe(false);
+  });
+
+  it("should pass $props to the styled component being extended", () => {
+    const Base = styled.div`
+      padding: ${(props: any) => props.$space ?? "0"};
+    `;
+    const Card = styled(Base)`
+      border: 1px solid;
+    `;
+
+    const { container } = render(() => <Card $space="8px" />);
+    const div = container.querySelector("div");
+
+    expect(cssFor(div)).toContain("padding: 8px");
+    expect(div?.hasAttribute("$space")).toBe(false);
+  });
+
+  it("should not pass $props to plain components", () => {
+    let received: Record<string, any> = {};
+    const Plain = (props: any) => {
+      received = props;
+      return <span class={props.class}>plain</span>;
+    };
+    const Styled = styled(Plain)`
+      margin: 0;
+    `;
+
+    render(() => <Styled $tone="muted" title="kept" />);
+
+    expect("$tone" in received).toBe(false);
+    expect(received.title).toBe("kept");
+  });
+});
+
+describe("shouldForwardProp", () => {
+  afterEach(() => {
+    cleanup();
+  });
+
+  it("should only forward the props it accepts", () => {
+    const Input = styled.input.withConfig({
+      shouldForwardProp: (prop) => prop !== "compact",
+    })`
+      padding: ${(props: any) => (props.compact ? "2px" : "8px")};
+    `;
+
+    const { container } = render(() => <Input compact placeholder="Search" />);
+    const input = container.querySelector("input");
+
+    expect(cssFor(input)).toContain("padding: 2px");
+    expect(input?.hasAttribute("compact")).toBe(false);
+    expect(input?.getAttribute("placeholder")).toBe("Search");
+  });
+
+  it("should receive the render target", () => {
+    const targets = new Set<unknown>();
+    const Box = styled.div.withConfig({
+      shouldForwardProp: (prop, target) => {
+        targets.add(target);
+        return true;
+      },
+    })`
+      display: block;
+    `;
+
+    render(() => <Box as="section" id="box" />);
+
+    expect(Array.from(targets)).toEqual(["section"]);
+  });
+
+  it("should combine with attrs", () => {
+    const Link = styled.a
+      .withConfig({ shouldForwardProp: (prop) => prop !== "external" })
+      .attrs((props: any) => ({ target: props.external ? "_blank" : undefined }))`
+      color: inherit;
+    `;
+
+    const { container } = render(() => <Link external href="/docs" />);
+    const link = container.querySelector("a");
+
+    expect(link?.getAttribute("target")).toBe("_blank");
+    expect(link?.hasAttribute("external")).toBe(false);
+  });
+});
+
+describe("RuntimeResolver transient props", () => {
+  it("should key static classes on $props", () => {
+    const resolver = new RuntimeResolver({
+      staticClassMap: new Map([
+        ["$variant:primary", { className: "button_variant-primary", css: "", propCombination: {} } as ExtractedStyle],
+      ]),
+    });
+
+    expect(resolver.resolveProps({ $variant: "primary", children: "Save" })).toBe("button_variant-primary");
+  });
+});
@@ -0,0 +1,175 @@
+/** @jsxImportSource solid-js */
+import { describe, it, expect, afterEach, afterAll } from "vitest";
+import { render, cleanup } from "@solidjs/testing-library";
+import { createSignal } from "solid-js";
+import { styled, css } from "../src";
+import { initializeResolver } from "../lightning/runtime/resolver";
+import { parseStyledComponent } from "../lightning/extractor/parser";
+import { generateVariantCSS } from "../lightning/extractor/generator";
+import { lightningCSSPlugin } from "../lightning/transforms/vinxi-plugin";
+import type { ExtractedStyle } from "../lightning/types";
+
+// CSS of every class on an element, read from the <style> element each raw class owns
+const cssOf = (el: Element | null): string =>
+  Array.from(el?.classList ?? [])
+    .map((cls) => document.getElementById(cls)?.textContent ?? "")
+    .join("\n");
+
+const BUTTON_SOURCE = `
+const Button = styled.button.variants({
+  variants: {
+    size: { sm: { padding: 4 }, lg: css\`padding: 12px;\` },
+    block: { true: { width: "100%" } },
+  },
+  compoundVariants: [{ size: "lg", block: true, css: { fontWeight: 700 } }],
+  defaultVariants: { size: "sm" },
+})\`
+  border: 0;
+\`;
+`;
+
+describe("styled variants", () => {
+  afterEach(() => {
+    cleanup();
+  });
+
+  it("should apply the classes of the selected variants", () => {
+    const Button = styled.button.variants({
+      variants: {
+        size: { sm: { padding: 4 }, lg: css`padding: 12px;` },
+        tone: { neutral: { color: "gray" }, danger: { color: "red" } },
+      },
+    })`
+      border: 0;
+    `;
+
+    const { container } = render(() => <Button size="lg" tone="danger" />);
+    const styles = cssOf(container.querySelector("button"));
+
+    expect(styles).toContain("border: 0;");
+    expect(styles).toContain("padding: 12px;");
+    expect(styles).toContain("color: red;");
+    expect(styles).not.toContain("padding: 4px;");
+  });
+
+  it("should fall back to defaultVariants", () => {
+    const Badge = styled.span.variants({
+      variants: { tone: { info: { color: "blue" }, warn: { color: "orange" } } },
+      defaultVariants: { tone: "info" },
+    })({ display: "inline-block" });
+
+    const { container } = render(() => <Badge />);
+
+    expect(cssOf(container.querySelector("span"))).toContain("color: blue;");
+  });
+
+  it("should apply compound variants when all conditions match", () => {
+    const Button = styled.button.variants({
+      variants: {
+        size: { sm: { padding: 4 }, lg: { padding: 12 } },
+        block: { true: { width: "100%" } },
+      },
+      compoundVariants: [{ size: "lg", block: true, css: { fontWeight: 700 } }],
+    })``;
+
+    const { container } = render(() => (
+      <>
+        <Button size="lg" block />
+        <Button size="sm" block />
+      </>
+    ));
+    const [matching, other] = Array.from(container.querySelectorAll("button"));
+
+    expect(cssOf(matching)).toContain("font-weight: 700;");
+    expect(cssOf(other)).not.toContain("font-weight: 700;");
+  });
+
+  it("should switch classes reactively and keep variant props off the DOM", () => {
+    const Box = styled.div.variants({
+      variants: { space: { tight: { gap: 2 }, loose: { gap: 16 } } },
+    })`
+      display: flex;
+    `;
+
+    const [space, setSpace] = createSignal<"tight" | "loose">("tight");
+    const { container } = render(() => <Box space={space()} />);
+    const div = container.querySelector("div");
+
+    expect(cssOf(div)).toContain("gap: 2px;");
+
+    setSpace("loose");
+
+    expect(container.querySelector("div")).toBe(div);
+    expect(cssOf(div)).toContain("gap: 16px;");
+    expect(div?.hasAttribute("space")).toBe(false);
+  });
+
+  describe("with build-time classes", () => {
+    afterAll(() => {
+      initializeResolver({ staticClassMap: new Map(), fallbackToRuntime: true });
+    });
+
+    it("should resolve variant classes through the RuntimeResolver", () => {
+      initializeResolver({
+        staticClassMap: new Map([
+          ["Chip-1::size:sm", { className: "chip-1_size-sm", css: "", propCombination: {} } as ExtractedStyle],
+        ]),
+        fallbackToRuntime: true,
+      });
+
+      const Chip = styled.span
+        .withConfig({ componentId: "Chip-1" })
+        .variants({ variants: { size: { sm: { padding: 2 }, lg: { padding: 8 } } } })``;
+
+      const { container } = render(() => (
+        <>
+          <Chip size="sm" />
+          <Chip size="lg" />
+        </>
+      ));
+      const [small, large] = Array.from(container.querySelectorAll("span"));
+
+      expect(small.classList.contains("chip-1_size-sm")).toBe(true);
+      expect(cssOf(large)).toContain("padding: 8px;");
+    });
+  });
+});
+
+describe("Lightning extraction of variants", () => {
+  it("should read the variants config statically", () => {
+    const [component] = parseStyledComponent(BUTTON_SOURCE, "button.tsx");
+
+    expect(component.styles.trim()).toBe("border: 0;");
+    expect(component.variants).toMatchObject({
+      variants: {
+        size: { sm: "padding: 4px;", lg: "padding: 12px;" },
+        block: { true: "width: 100%;" },
+      },
+      compoundVariants: [{ conditions: { size: "lg", block: "true" }, css: "font-weight: 700;" }],
+      defaultVariants: { size: "sm" },
+    });
+  });
+
+  it("should generate one keyed class per variant value", () => {
+    const [component] = parseStyledComponent(BUTTON_SOURCE, "button.tsx");
+    const id = component.componentId!;
+    const styles = generateVariantCSS(component);
+
+    expect(styles.map((style) => style.resolverKey)).toEqual([
+      `${id}::size:sm`,
+      `${id}::size:lg`,
+      `${id}::block:true`,
+      `${id}::compound:0`,
+    ]);
+    expect(styles[1].css).toBe(`.${id.toLowerCase()}_size-lg { padding: 12px; }`);
+  });
+
+  it("should inject the component id in the transformed code", async () => {
+    const result = await lightningCSSPlugin().transform!(BUTTON_SOURCE, "button.tsx");
+    const [component] = parseStyledComponent(BUTTON_SOURCE, "button.tsx");
+
+    expect(result?.code).toContain(
+      `styled.button.withConfig({ componentId: "${component.componentId}" }).variants(`
+    );
+  });
+});
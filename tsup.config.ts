@@ -7,6 +7,7 @@ export default defineConfig({
     "utils/spring": "utils/spring.ts",
     "utils/gradient": "utils/gradient-numerical.ts",
     "integrations/astro": "integrations/astro.ts",
+    testing: "testing/index.ts",
   },
   format: ["esm", "cjs"],
   dts: true,
@@ -1257,6 +1257,210 @@ export function createDerivedSpring<T extends SpringTarget>(
   return springValue;
 }
 
+// ===========================================================================
+// Decay (Inertia) Animation
+// ===========================================================================
+
+/**
+ * Decay animation options
+ */
+export interface DecayOptions {
+  /**
+   * Share of the velocity travelled before stopping: the value comes to rest
+   * near `from + velocity * power`
+   * @default 0.8
+   */
+  power?: number;
+
+  /**
+   * Time constant of the exponential slowdown in ms (higher = longer glide)
+   * @default 325
+   */
+  timeConstant?: number;
+
+  /**
+   * Lowest value. The animation springs back to it when it glides past.
+   */
+  min?: number;
+
+  /**
+   * Highest value. The animation springs back to it when it glides past.
+   */
+  max?: number;
+
+  /**
+   * Stiffness of the spring at `min` and `max`
+   * @default 500
+   */
+  bounceStiffness?: number;
+
+  /**
+   * Damping of the spring at `min` and `max`
+   * @default 10
+   */
+  bounceDamping?: number;
+
+  /**
+   * Values to come to rest at. The one nearest the projected end is chosen.
+   */
+  snapTo?: number[];
+
+  /**
+   * Choose where to come to rest from the projected end. Takes precedence over `snapTo`.
+   */
+  modifyTarget?: (target: number) => number;
+
+  /**
+   * Distance from the end at which the animation stops
+   * @default 0.5
+   */
+  restDelta?: number;
+
+  onUpdate?: (value: number) => void;
+  onComplete?: (value: number) => void;
+}
+
+// Below this speed, in units per second, a bounce has settled
+const DECAY_REST_SPEED = 10;
+// Longest step of the bounce integration, in seconds
+const DECAY_MAX_STEP = 1 / 120;
+
+/**
+ * Creates a value that glides from an initial velocity and slows down
+ * exponentially, like a flicked scroll view. Past `min` or `max` it springs
+ * back to the bound.
+ *
+ * @example
+ * ```ts
+ * const glide = createDecay(0, { min: 0, max: 500, snapTo: [0, 250, 500] });
+ * // Velocity in units per second, e.g. from a pointer release
+ * glide.start(1200);
+ * ```
+ */
+export function createDecay(
+  initial: number,
+  options: DecayOptions = {}
+): {
+  value: Accessor<number>;
+  isAnimating: Accessor<boolean>;
+  start: (velocity: number, from?: number) => Promise<void>;
+  stop: () => void;
+} {
+  const power = options.power ?? 0.8;
+  const timeConstant = options.timeConstant ?? 325;
+  const restDelta = options.restDelta ?? 0.5;
+  const stiffness = options.bounceStiffness ?? 500;
+  const damping = options.bounceDamping ?? 10;
+
+  if (timeConstant <= 0) {
+    throw new Error("Decay time constant must be a positive number.");
+  }
+
+  const [value, setValue] = createSignal(initial);
+  const [isAnimating, setIsAnimating] = createSignal(false);
+  let task: Task | undefined;
+  let finish: (() => void) | undefined;
+
+  const update = (next: number) => {
+    setValue(next);
+    options.onUpdate?.(next);
+  };
+
+  // Bound the value is past, if any
+  const edgeOf = (current: number): number | undefined => {
+    if (options.min !== undefined && current < options.min) return options.min;
+    if (options.max !== undefined && current > options.max) return options.max;
+    return undefined;
+  };
+
+  const restingPoint = (projected: number): number => {
+    if (options.modifyTarget) return options.modifyTarget(projected);
+    if (!options.snapTo?.length) return projected;
+    return options.snapTo.reduce((nearest, point) =>
+      Math.abs(point - projected) < Math.abs(nearest - projected) ? point : nearest
+    );
+  };
+
+  const stop = () => {
+    task?.abort();
+    task = undefined;
+    setIsAnimating(false);
+    finish?.();
+    finish = undefined;
+  };
+
+  /**
+   * Glide from `from` (the current value by default) with `velocity` in units per second
+   */
+  const start = (velocity: number, from = value()): Promise<void> => {
+    stop();
+
+    const target = restingPoint(from + velocity * power);
+    const amplitude = target - from;
+    const startTime = raf.now();
+    let lastTime = startTime;
+
+    // Spring towards a bound, once the value is past it
+    const startEdge = edgeOf(from);
+    let bounce = startEdge === undefined ? undefined : { to: startEdge, position: from, velocity };
+
+    const step = (now: number): boolean => {
+      let dt = Math.min(Math.max(now - lastTime, 0), 64) / 1000;
+      lastTime = now;
+
+      if (!bounce) {
+        const elapsed = Math.max(now - startTime, 0);
+        const delta = -amplitude * Math.exp(-elapsed / timeConstant);
+        const current = target + delta;
+        const edge = edgeOf(current);
+
+        if (edge === undefined) {
+          const done = Math.abs(delta) <= restDelta;
+          update(done ? target : current);
+          return !done;
+        }
+
+        // Hand over to the spring with the speed of the glide
+        bounce = { to: edge, position: current, velocity: (-delta / timeConstant) * 1000 };
+        dt = 0;
+      }
+
+      while (dt > 0) {
+        const h = Math.min(dt, DECAY_MAX_STEP);
+        const acceleration = -stiffness * (bounce.position - bounce.to) - damping * bounce.velocity;
+        bounce.velocity += acceleration * h;
+        bounce.position += bounce.velocity * h;
+        dt -= h;
+      }
+
+      const done =
+        Math.abs(bounce.velocity) <= DECAY_REST_SPEED && Math.abs(bounce.position - bounce.to) <= restDelta;
+      update(done ? bounce.to : bounce.position);
+      return !done;
+    };
+
+    setIsAnimating(true);
+    const current = loop(step);
+    task = current;
+
+    return new Promise<void>((resolve) => {
+      finish = resolve;
+      current.promise.then(() => {
+        if (task !== current) return;
+        task = undefined;
+        finish = undefined;
+        setIsAnimating(false);
+        options.onComplete?.(value());
+        resolve();
+      });
+    });
+  };
+
+  onCleanup(stop);
+
+  return { value, isAnimating, start, stop };
+}
+
 // ===========================================================================
 // CSS Grid Template Detection and Spring Animation
 // ===========================================================================
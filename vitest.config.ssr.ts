@@ -4,7 +4,20 @@ import solid from "vite-plugin-solid";
 import path from "path";
 
 export default defineConfig({
-  plugins: [solid({ ssr: true })],
+  plugins: [
+    solid({ ssr: true }),
+    {
+      // vite-plugin-solid adds the "browser" condition in test mode, which resolves
+      // solid-js/web to its client build; server renders need the node one
+      name: "ssr-test-conditions",
+      configEnvironment(_name, config) {
+        config.resolve = {
+          ...config.resolve,
+          conditions: config.resolve?.conditions?.filter((condition) => condition !== "browser"),
+        };
+      },
+    },
+  ],
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
@@ -65,6 +65,12 @@ export default defineConfig({
       "**/2/**",
       "**/*ssr*.test.{ts,tsx}", // Exclude SSR tests from browser environment
     ],
+    // Type-level tests (*.test-d.ts) are checked with tsc, not run
+    typecheck: {
+      enabled: true,
+      include: ["tests/**/*.test-d.ts"],
+      tsconfig: "./tsconfig.typecheck.json",
+    },
     coverage: {
       provider: "v8",
       reporter: ["text", "json", "html", "lcov"],